@@ -4,6 +4,7 @@ import {
   createMockServer,
   mockEventResponse,
   mockEventsListResponse,
+  mockEventRunsResponse,
   mockRunResponse,
   mockSendEventResponse,
 } from "./lib/test-utils";
@@ -39,7 +40,19 @@ describe("CLI integration", () => {
             metadata: { fetched_at: new Date().toISOString() },
           },
         },
+        {
+          method: "GET",
+          path: "/v1/events/evt-new/runs",
+          response: mockEventRunsResponse([
+            { runId: "run-new", status: "Completed", functionId: "test-func" },
+          ]),
+        },
         // Runs
+        {
+          method: "GET",
+          path: "/v1/runs/run-test/jobs",
+          response: { data: [] },
+        },
         {
           method: "GET",
           path: "/v1/runs/run-test",
@@ -51,6 +64,25 @@ describe("CLI integration", () => {
             endedAt: "2024-01-01T10:01:00Z",
           }),
         },
+        {
+          method: "GET",
+          path: "/v1/runs/run-running/jobs",
+          response: { data: [] },
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-running",
+          response: mockRunResponse({
+            runId: "run-running",
+            status: "Running",
+            functionId: "test-func",
+          }),
+        },
+        {
+          method: "DELETE",
+          path: "/v1/runs/run-running",
+          response: {},
+        },
         // Send event
         {
           method: "POST",
@@ -136,6 +168,45 @@ describe("CLI integration", () => {
       expect(result.events[0].name).toBe("user.signup");
     });
 
+    test("events list supports --format ndjson", async () => {
+      const { stdout, exitCode } = await runCli([
+        "events",
+        "list",
+        "--dev",
+        "--format",
+        "ndjson",
+      ]);
+
+      expect(exitCode).toBe(0);
+      const lines = stdout.trim().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0]).name).toBe("user.signup");
+    });
+
+    test("events list supports --where and --fields", async () => {
+      const { stdout, exitCode } = await runCli([
+        "events",
+        "list",
+        "--dev",
+        "--where",
+        'name == "order.created"',
+        "--fields",
+        "id,name",
+        "--format",
+        "csv",
+      ]);
+
+      expect(exitCode).toBe(0);
+      expect(stdout.trim()).toBe("id,name\nevt-2,order.created");
+    });
+
+    test("rejects unknown formats", async () => {
+      const { stderr, exitCode } = await runCli(["events", "list", "--format", "xml"]);
+
+      expect(exitCode).toBe(4);
+      expect(stderr).toContain("--format must be one of");
+    });
+
     test("events get returns event details", async () => {
       const { stdout, exitCode } = await runCli([
         "events",
@@ -159,7 +230,7 @@ describe("CLI integration", () => {
         "--dev",
       ]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
       expect(stderr).toContain("--name is required");
     });
 
@@ -172,7 +243,7 @@ describe("CLI integration", () => {
         "--dev",
       ]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
       expect(stderr).toContain("--data or --data-file is required");
     });
 
@@ -195,6 +266,42 @@ describe("CLI integration", () => {
       expect(result.ids).toContain("evt-new");
     });
 
+    test("events send --wait reports triggered runs", async () => {
+      const { stdout, exitCode } = await runCli([
+        "events",
+        "send",
+        "--name",
+        "test.event",
+        "--data",
+        "{}",
+        "--wait",
+        "--dev",
+      ]);
+
+      expect(exitCode).toBe(0);
+      const result = JSON.parse(stdout);
+      expect(result.events[0].eventId).toBe("evt-new");
+      expect(result.events[0].runs[0].status).toBe("Completed");
+    });
+
+    test("events send --batch-file sends events from NDJSON", async () => {
+      const tmpFile = "/tmp/inngest-ctl-test-batch.ndjson";
+      await Bun.write(tmpFile, '{"name":"test.event","data":{"n":1}}\n');
+
+      const { stdout, exitCode } = await runCli([
+        "events",
+        "send",
+        "--batch-file",
+        tmpFile,
+        "--dev",
+      ]);
+
+      expect(exitCode).toBe(0);
+      const result = JSON.parse(stdout);
+      expect(result.sent).toBe(1);
+      expect(result.results[0]).toEqual({ line: 1, name: "test.event", id: "evt-new" });
+    });
+
     test("events send with --data-file rejects missing file", async () => {
       const { stderr, exitCode } = await runCli([
         "events",
@@ -206,7 +313,7 @@ describe("CLI integration", () => {
         "--dev",
       ]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
     });
 
     test("events send validates JSON data", async () => {
@@ -220,9 +327,33 @@ describe("CLI integration", () => {
         "--dev",
       ]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
       expect(stderr).toContain("--data must be valid JSON");
     });
+
+    test("events replay reads the IDs from events list output on stdin", async () => {
+      const listOutput = {
+        events: [{ id: "evt-test", name: "test.event", receivedAt: "2024-01-01T10:00:00Z", data: {} }],
+        meta: { fetchedAt: "2024-01-01T10:00:01Z", total: 1 },
+      };
+      const proc = Bun.spawn(["bun", "run", "cli.ts", "events", "replay", "--dev"], {
+        env: {
+          ...process.env,
+          INNGEST_EVENT_KEY: "test-key",
+          INNGEST_DEV_URL: `http://localhost:${port}`,
+        },
+        stdin: new Blob([JSON.stringify(listOutput, null, 2)]),
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+
+      const stdout = await new Response(proc.stdout).text();
+      const exitCode = await proc.exited;
+
+      expect(exitCode).toBe(0);
+      const result = JSON.parse(stdout);
+      expect(result.replayed[0]).toMatchObject({ sourceId: "evt-test", id: "evt-new" });
+    });
   });
 
   describe("runs commands", () => {
@@ -240,29 +371,117 @@ describe("CLI integration", () => {
       expect(result.status).toBe("Completed");
     });
 
+    test("runs watch exits 0 for a completed run", async () => {
+      const { stdout, exitCode } = await runCli([
+        "runs",
+        "watch",
+        "run-test",
+        "--dev",
+      ]);
+
+      expect(exitCode).toBe(0);
+      const result = JSON.parse(stdout);
+      expect(result.run.status).toBe("Completed");
+      expect(result.timedOut).toBe(false);
+    });
+
+    test("runs watch exits 130 with the last state on Ctrl-C", async () => {
+      const proc = Bun.spawn(
+        ["bun", "run", "cli.ts", "runs", "watch", "run-running", "--dev", "--interval", "50ms"],
+        {
+          env: { ...process.env, INNGEST_DEV_URL: `http://localhost:${port}` },
+          stdout: "pipe",
+          stderr: "pipe",
+        }
+      );
+      setTimeout(() => proc.kill("SIGINT"), 1000);
+
+      const stdout = await new Response(proc.stdout).text();
+      const exitCode = await proc.exited;
+
+      expect(exitCode).toBe(130);
+      const result = JSON.parse(stdout);
+      expect(result.run.status).toBe("Running");
+      expect(result.interrupted).toBe(true);
+    });
+
     test("runs status requires run ID", async () => {
       const { stderr, exitCode } = await runCli(["runs", "status", "--dev"]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
       expect(stderr).toContain("Run ID is required");
     });
 
     test("runs list requires --event", async () => {
       const { stderr, exitCode } = await runCli(["runs", "list", "--dev"]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
       expect(stderr).toContain("--event is required");
     });
   });
 
+  describe("cancel commands", () => {
+    test("cancel run reads run IDs from JSON on stdin", async () => {
+      const proc = Bun.spawn(["bun", "run", "cli.ts", "cancel", "run", "--dev"], {
+        env: { ...process.env, INNGEST_DEV_URL: `http://localhost:${port}` },
+        stdin: new Blob([JSON.stringify([{ runId: "run-running" }, { runId: "run-test" }])]),
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+
+      const stdout = await new Response(proc.stdout).text();
+      const exitCode = await proc.exited;
+
+      expect(exitCode).toBe(0);
+      const result = JSON.parse(stdout);
+      expect(result.runs.map((run: { result: string }) => run.result)).toEqual([
+        "cancelled",
+        "already_finished",
+      ]);
+    });
+  });
+
   describe("error handling", () => {
     test("unknown command shows error", async () => {
       const { stderr, exitCode } = await runCli(["unknown"]);
 
-      expect(exitCode).toBe(1);
+      expect(exitCode).toBe(4);
       expect(stderr).toContain("Unknown command");
     });
 
+    test("rejects a --dry-run value other than true or false", async () => {
+      const { stderr, exitCode } = await runCli([
+        "cancel",
+        "--app",
+        "my-app",
+        "--function",
+        "my-func",
+        "--started-after",
+        "1h",
+        "--started-before",
+        "now",
+        "--dry-run=yes",
+        "--dev",
+      ]);
+
+      expect(exitCode).toBe(4);
+      expect(stderr).toContain("--dry-run must be true or false");
+    });
+
+    test("rejects a non-numeric --retries", async () => {
+      const { stderr, exitCode } = await runCli(["runs", "status", "run-test", "--dev", "--retries", "abc"]);
+
+      expect(exitCode).toBe(4);
+      expect(stderr).toContain("--retries must be a non-negative integer");
+    });
+
+    test("rejects a non-numeric --concurrency", async () => {
+      const { stderr, exitCode } = await runCli(["cancel", "run", "run-running", "--dev", "--concurrency", "abc"]);
+
+      expect(exitCode).toBe(4);
+      expect(stderr).toContain("--concurrency must be a non-negative integer");
+    });
+
     test("missing signing key shows error in production mode", async () => {
       const proc = Bun.spawn(["bun", "run", "cli.ts", "events", "list"], {
         env: {
@@ -276,8 +495,20 @@ describe("CLI integration", () => {
       const stderr = await new Response(proc.stderr).text();
       const exitCode = await proc.exited;
 
-      expect(exitCode).toBe(1);
-      expect(stderr).toContain("INNGEST_SIGNING_KEY");
+      expect(exitCode).toBe(5);
+      const error = JSON.parse(stderr);
+      expect(error.code).toBe("auth_error");
+      expect(error.error).toContain("INNGEST_SIGNING_KEY");
+      expect(error.hint).toContain("INNGEST_SIGNING_KEY");
+    });
+
+    test("API errors carry their status and exit code", async () => {
+      const { stderr, exitCode } = await runCli(["runs", "status", "run-missing", "--dev"]);
+
+      expect(exitCode).toBe(6);
+      const error = JSON.parse(stderr);
+      expect(error.code).toBe("not_found");
+      expect(error.status).toBe(404);
     });
 
     test("dev mode works without signing key", async () => {
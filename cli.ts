@@ -1,9 +1,44 @@
 #!/usr/bin/env bun
 
-import { sendEvent, getEvent, getEventRuns, listEvents } from "./lib/events";
-import { getRun, getRunJobs } from "./lib/runs";
-import { cancelRuns } from "./lib/cancel";
-import { printOutput, printError } from "./lib/output";
+import {
+  sendEvent,
+  getEvent,
+  getEventRuns,
+  listEvents,
+  waitForEventRuns,
+  sendEventBatch,
+  parseEventBatch,
+  tailEvents,
+} from "./lib/events";
+import { getRun, getRunJobs, watchRun, getRunTimeline } from "./lib/runs";
+import {
+  cancelRuns,
+  previewCancel,
+  cancelRunsById,
+  listCancellations,
+  getCancellation,
+  deleteCancellation,
+  testCancelExpression,
+} from "./lib/cancel";
+import { replayEvents, parseOverrides, resolveReplayTarget } from "./lib/replay";
+import { traceEvent } from "./lib/trace";
+import { getEventStats, getRunStats } from "./lib/stats";
+import { listProfiles, showProfile, useProfile, resolveProfile } from "./lib/config";
+import {
+  printOutput,
+  printError,
+  createRunWatchPrinter,
+  createEventTailPrinter,
+} from "./lib/output";
+import { parseDuration } from "./lib/time";
+import { isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from "./lib/format";
+import { ValidationError, EXIT_CODES, exitCodeFor } from "./lib/errors";
+import {
+  createClient,
+  getShutdownSignal,
+  requestShutdown,
+  type ClientOptions,
+} from "./lib/client";
 
 // Types
 interface GlobalFlags {
@@ -11,6 +46,18 @@ interface GlobalFlags {
   output?: string;
   dev: boolean;
   port?: number;
+  profile?: string;
+  env?: string;
+  // Resolved from --env, INNGEST_ENV or the profile; shown in pretty headers
+  environment?: string;
+  format?: OutputFormat;
+  columns?: string[];
+  fields?: string[];
+  where?: string;
+  retries?: number;
+  requestTimeout?: number;
+  verbose: boolean;
+  debug: boolean;
 }
 
 // Main entry point
@@ -20,13 +67,27 @@ async function main(): Promise<void> {
 
   if (positional.length === 0) {
     printUsage();
-    process.exit(1);
+    process.exit(EXIT_CODES.validation_error);
   }
 
   const command = positional[0];
   const subArgs = positional.slice(1);
 
+  // First Ctrl-C aborts in-flight requests so watchers can print what they
+  // have; a second one exits immediately
+  process.on("SIGINT", () => {
+    if (getShutdownSignal().aborted) {
+      process.exit(EXIT_CODES.interrupted);
+    }
+    requestShutdown();
+  });
+
   try {
+    if (command !== "profile") {
+      applyProfileDefaults(flags);
+      flags.environment = activeEnvironment(flags);
+    }
+
     switch (command) {
       case "events":
         await handleEvents(subArgs, flags);
@@ -37,6 +98,12 @@ async function main(): Promise<void> {
       case "cancel":
         await handleCancel(subArgs, flags);
         break;
+      case "trace":
+        await handleTrace(subArgs, flags);
+        break;
+      case "profile":
+        handleProfile(subArgs, flags);
+        break;
       case "help":
       case "--help":
       case "-h":
@@ -48,14 +115,13 @@ async function main(): Promise<void> {
         console.log("0.2.0");
         break;
       default:
-        printError(`Unknown command: ${command}`, flags.pretty);
+        printError(new ValidationError(`Unknown command: ${command}`), flags.pretty);
         printUsage();
-        process.exit(1);
+        process.exit(EXIT_CODES.validation_error);
     }
   } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    printError(message, flags.pretty);
-    process.exit(1);
+    printError(err, flags.pretty);
+    process.exit(getShutdownSignal().aborted ? EXIT_CODES.interrupted : exitCodeFor(err));
   }
 }
 
@@ -63,7 +129,7 @@ async function main(): Promise<void> {
 async function handleEvents(args: string[], flags: GlobalFlags): Promise<void> {
   if (args.length === 0) {
     printEventsUsage();
-    process.exit(1);
+    process.exit(EXIT_CODES.validation_error);
   }
 
   const subcommand = args[0];
@@ -82,15 +148,20 @@ async function handleEvents(args: string[], flags: GlobalFlags): Promise<void> {
       const dataStr = parsed["data"];
       const dataFile = parsed["data-file"];
       const id = parsed["id"];
-      const env = parsed["env"];
+      const batchFile = parsed["batch-file"];
+
+      if (batchFile) {
+        const inputs = parseEventBatch(await readBatchInput(batchFile));
+        const result = await sendEventBatch(inputs, clientOptions(flags));
+        printOutput(result, flags);
+        process.exit(result.failed > 0 ? 1 : 0);
+      }
 
       if (!name) {
-        printError("--name is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("--name is required");
       }
       if (!dataStr && !dataFile) {
-        printError("--data or --data-file is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("--data or --data-file is required");
       }
 
       let data: Record<string, unknown>;
@@ -99,32 +170,41 @@ async function handleEvents(args: string[], flags: GlobalFlags): Promise<void> {
         data = JSON.parse(rawJson);
       } catch (err) {
         const source = dataFile ? `--data-file (${dataFile})` : "--data";
-        printError(`${source} must be valid JSON`, flags.pretty);
-        process.exit(1);
+        throw new ValidationError(`${source} must be valid JSON`);
       }
 
       const result = await sendEvent({
         name,
         data,
         id,
-        env,
-        dev: flags.dev,
-        port: flags.port,
+        ...clientOptions(flags),
       });
-      printOutput(result, flags);
-      break;
+
+      if (parsed["wait"] !== "true") {
+        printOutput(result, flags);
+        break;
+      }
+
+      const waited = await waitForEventRuns(result.ids, {
+        interval: parseDurationArg(parsed["interval"]),
+        timeout: parseDurationArg(parsed["timeout"]),
+        ...clientOptions(flags),
+      });
+      printOutput(waited, flags);
+      const runs = waited.events.flatMap((event) => event.runs);
+      process.exit(
+        waited.interrupted
+          ? EXIT_CODES.interrupted
+          : runExitCode(runs.map((run) => run.status), waited.timedOut)
+      );
     }
 
     case "get": {
       const eventId = subArgs[0];
       if (!eventId) {
-        printError("Event ID is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("Event ID is required");
       }
-      const result = await getEvent(eventId, {
-        dev: flags.dev,
-        port: flags.port,
-      });
+      const result = await getEvent(eventId, clientOptions(flags));
       printOutput(result, flags);
       break;
     }
@@ -132,44 +212,113 @@ async function handleEvents(args: string[], flags: GlobalFlags): Promise<void> {
     case "runs": {
       const eventId = subArgs[0];
       if (!eventId) {
-        printError("Event ID is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("Event ID is required");
       }
+      const parsed = parseNamedArgs(subArgs.slice(1));
       const result = await getEventRuns(eventId, {
-        dev: flags.dev,
-        port: flags.port,
+        startedAfter: parsed["started-after"],
+        startedBefore: parsed["started-before"],
+        ...clientOptions(flags),
       });
       printOutput(result, flags);
       break;
     }
 
+    case "replay": {
+      const parsed = parseNamedArgs(subArgs);
+      const eventIds = await readIdArgs(parsePositionalArgs(subArgs));
+      if (eventIds.length === 0) {
+        throw new ValidationError("At least one event ID is required");
+      }
+
+      const result = await replayEvents(eventIds, {
+        to: resolveReplayTarget(parsed["to"], parsed["to-env"], clientOptions(flags)),
+        id: parsed["id"],
+        set: parseOverrides(parseRepeatedArg(subArgs, "set")),
+        ...clientOptions(flags),
+      });
+      printOutput(result, flags);
+      process.exit(result.failed > 0 ? 1 : 0);
+    }
+
     case "list": {
       const parsed = parseNamedArgs(subArgs);
       const name = parsed["name"];
-      const limitStr = parsed["limit"];
-      const limit = limitStr ? parseInt(limitStr, 10) : undefined;
+      const limit = parseIntArg(parsed["limit"], "--limit");
+      const pageSize = parseIntArg(parsed["page-size"], "--page-size");
+      const max = parseIntArg(parsed["max"], "--max");
+      const cursor = parsed["cursor"];
+      const all = parsed["all"] === "true";
 
       const result = await listEvents({
         name,
         limit,
-        dev: flags.dev,
-        port: flags.port,
+        cursor,
+        pageSize,
+        all,
+        max,
+        receivedAfter: parsed["received-after"],
+        receivedBefore: parsed["received-before"],
+        ...clientOptions(flags),
+      });
+      printOutput(result, flags);
+      break;
+    }
+
+    case "stats": {
+      const parsed = parseNamedArgs(subArgs);
+      const result = await getEventStats({
+        since: parsed["since"],
+        until: parsed["until"],
+        bucket: parseDurationArg(parsed["bucket"]),
+        name: parsed["name"],
+        groupBy: parsed["group-by"],
+        max: parseIntArg(parsed["max"], "--max"),
+        ...clientOptions(flags),
       });
       printOutput(result, flags);
       break;
     }
 
+    case "tail": {
+      const parsed = parseNamedArgs(subArgs);
+      const name = parsed["name"];
+      // Events stream one per line, so only line-based output applies
+      if (flags.output) {
+        throw new ValidationError("events tail does not support --output; redirect stdout instead");
+      }
+      if (flags.format && flags.format !== "json" && flags.format !== "ndjson") {
+        throw new ValidationError("events tail supports --format json or ndjson (one event per line)");
+      }
+      if (flags.pretty) {
+        const where = flags.environment ? ` in ${flags.environment}` : "";
+        console.error(`Tailing ${name ? `"${name}" ` : ""}events${where} (Ctrl-C to stop)`);
+      }
+
+      const result = await tailEvents({
+        name,
+        interval: parseDurationArg(parsed["interval"]),
+        withRuns: parsed["with-runs"] === "true",
+        ...createEventTailPrinter(flags),
+        ...clientOptions(flags),
+      });
+      if (flags.pretty) {
+        console.error(`Stopped after ${result.events} events, ${result.polls} polls, ${result.errors} errors`);
+      }
+      process.exit(result.interrupted ? EXIT_CODES.interrupted : 0);
+    }
+
     default:
-      printError(`Unknown events subcommand: ${subcommand}`, flags.pretty);
+      printError(new ValidationError(`Unknown events subcommand: ${subcommand}`), flags.pretty);
       printEventsUsage();
-      process.exit(1);
+      process.exit(EXIT_CODES.validation_error);
   }
 }
 
 async function handleRuns(args: string[], flags: GlobalFlags): Promise<void> {
   if (args.length === 0) {
     printRunsUsage();
-    process.exit(1);
+    process.exit(EXIT_CODES.validation_error);
   }
 
   const subcommand = args[0];
@@ -185,13 +334,23 @@ async function handleRuns(args: string[], flags: GlobalFlags): Promise<void> {
     case "get": {
       const runId = subArgs[0];
       if (!runId) {
-        printError("Run ID is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("Run ID is required");
       }
-      const result = await getRunJobs(runId, {
-        dev: flags.dev,
-        port: flags.port,
-      });
+      if (parseNamedArgs(subArgs.slice(1))["timeline"] === "true") {
+        printOutput(await getRunTimeline(runId, clientOptions(flags)), flags);
+        break;
+      }
+      const result = await getRunJobs(runId, clientOptions(flags));
+      printOutput(result, flags);
+      break;
+    }
+
+    case "timeline": {
+      const runId = subArgs[0];
+      if (!runId) {
+        throw new ValidationError("Run ID is required");
+      }
+      const result = await getRunTimeline(runId, clientOptions(flags));
       printOutput(result, flags);
       break;
     }
@@ -200,12 +359,12 @@ async function handleRuns(args: string[], flags: GlobalFlags): Promise<void> {
       const parsed = parseNamedArgs(subArgs);
       const eventId = parsed["event"];
       if (!eventId) {
-        printError("--event is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("--event is required");
       }
       const result = await getEventRuns(eventId, {
-        dev: flags.dev,
-        port: flags.port,
+        startedAfter: parsed["started-after"],
+        startedBefore: parsed["started-before"],
+        ...clientOptions(flags),
       });
       printOutput(result, flags);
       break;
@@ -214,22 +373,84 @@ async function handleRuns(args: string[], flags: GlobalFlags): Promise<void> {
     case "status": {
       const runId = subArgs[0];
       if (!runId) {
-        printError("Run ID is required", flags.pretty);
-        process.exit(1);
+        throw new ValidationError("Run ID is required");
       }
-      const result = await getRun(runId, { dev: flags.dev, port: flags.port });
+      const result = await getRun(runId, clientOptions(flags));
+      printOutput(result, flags);
+      break;
+    }
+
+    case "stats": {
+      const parsed = parseNamedArgs(subArgs);
+      const result = await getRunStats({
+        since: parsed["since"],
+        until: parsed["until"],
+        functionId: parsed["function"],
+        appId: parsed["app"],
+        max: parseIntArg(parsed["max"], "--max"),
+        concurrency: parseIntArg(parsed["concurrency"], "--concurrency"),
+        ...clientOptions(flags),
+      });
       printOutput(result, flags);
       break;
     }
 
+    case "watch": {
+      const runId = subArgs[0];
+      if (!runId) {
+        throw new ValidationError("Run ID is required");
+      }
+      const parsed = parseNamedArgs(subArgs.slice(1));
+      const result = await watchRun(runId, {
+        interval: parseDurationArg(parsed["interval"]),
+        maxInterval: parseDurationArg(parsed["max-interval"]),
+        timeout: parseDurationArg(parsed["timeout"]),
+        onUpdate: flags.pretty && !flags.format && !flags.output ? createRunWatchPrinter() : undefined,
+        ...clientOptions(flags),
+      });
+      printOutput(result, flags);
+      process.exit(
+        result.interrupted ? EXIT_CODES.interrupted : runExitCode([result.run.status], result.timedOut)
+      );
+    }
+
     default:
-      printError(`Unknown runs subcommand: ${subcommand}`, flags.pretty);
+      printError(new ValidationError(`Unknown runs subcommand: ${subcommand}`), flags.pretty);
       printRunsUsage();
-      process.exit(1);
+      process.exit(EXIT_CODES.validation_error);
   }
 }
 
 async function handleCancel(args: string[], flags: GlobalFlags): Promise<void> {
+  switch (args[0]) {
+    case "run":
+      await handleCancelRun(args.slice(1), flags);
+      return;
+    case "list": {
+      const parsed = parseNamedArgs(args.slice(1));
+      const result = await listCancellations({
+        appId: parsed["app"],
+        functionId: parsed["function"],
+        ...clientOptions(flags),
+      });
+      printOutput(result, flags);
+      return;
+    }
+    case "get":
+    case "delete": {
+      const id = args[1];
+      if (!id || id.startsWith("--")) {
+        throw new ValidationError("Cancellation ID is required");
+      }
+      const result =
+        args[0] === "get"
+          ? await getCancellation(id, clientOptions(flags))
+          : await deleteCancellation(id, clientOptions(flags));
+      printOutput(result, flags);
+      return;
+    }
+  }
+
   const parsed = parseNamedArgs(args);
 
   const appId = parsed["app"];
@@ -238,37 +459,141 @@ async function handleCancel(args: string[], flags: GlobalFlags): Promise<void> {
   const startedBefore = parsed["started-before"];
   const ifExpr = parsed["if"];
 
+  if (parsed["if-test"]) {
+    if (!ifExpr) {
+      throw new ValidationError("--if-test requires --if");
+    }
+    const result = await testCancelExpression(ifExpr, parsed["if-test"], clientOptions(flags));
+    printOutput(result, flags);
+    return;
+  }
+
   if (!appId) {
-    printError("--app is required", flags.pretty);
-    process.exit(1);
+    throw new ValidationError("--app is required");
   }
   if (!functionId) {
-    printError("--function is required", flags.pretty);
-    process.exit(1);
+    throw new ValidationError("--function is required");
   }
   if (!startedAfter) {
-    printError("--started-after is required", flags.pretty);
-    process.exit(1);
+    throw new ValidationError("--started-after is required");
   }
   if (!startedBefore) {
-    printError("--started-before is required", flags.pretty);
-    process.exit(1);
+    throw new ValidationError("--started-before is required");
   }
 
-  const result = await cancelRuns({
+  const options = {
     appId,
     functionId,
     startedAfter,
     startedBefore,
     if: ifExpr,
-    dev: flags.dev,
-    port: flags.port,
+    ...clientOptions(flags),
+  };
+
+  const dryRun = parseBoolArg(parsed["dry-run"], "--dry-run");
+  const result = dryRun ? await previewCancel(options) : await cancelRuns(options);
+  printOutput(result, flags);
+}
+
+async function handleCancelRun(args: string[], flags: GlobalFlags): Promise<void> {
+  const parsed = parseNamedArgs(args);
+  const runIds = await readIdArgs(parsePositionalArgs(args), "runId");
+  if (runIds.length === 0) {
+    throw new ValidationError("At least one run ID is required");
+  }
+
+  const result = await cancelRunsById(runIds, {
+    concurrency: parseIntArg(parsed["concurrency"], "--concurrency"),
+    ...clientOptions(flags),
   });
+  printOutput(result, flags);
+  process.exit(result.failed + result.notFound > 0 ? 1 : 0);
+}
 
+async function handleTrace(args: string[], flags: GlobalFlags): Promise<void> {
+  const eventId = parsePositionalArgs(args)[0];
+  if (!eventId) {
+    throw new ValidationError("Event ID is required");
+  }
+  const parsed = parseNamedArgs(args);
+  const result = await traceEvent(eventId, {
+    depth: parseIntArg(parsed["depth"], "--depth"),
+    ...clientOptions(flags),
+  });
   printOutput(result, flags);
 }
 
+function handleProfile(args: string[], flags: GlobalFlags): void {
+  if (args.length === 0) {
+    printProfileUsage();
+    process.exit(EXIT_CODES.validation_error);
+  }
+
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  switch (subcommand) {
+    case "help":
+    case "--help":
+    case "-h":
+      printProfileUsage();
+      return;
+
+    case "list":
+      printOutput(listProfiles(flags.profile), flags);
+      break;
+
+    case "show":
+      printOutput(showProfile(subArgs[0], flags.profile), flags);
+      break;
+
+    case "use": {
+      const name = subArgs[0];
+      if (!name) {
+        throw new ValidationError("Profile name is required");
+      }
+      printOutput(useProfile(name), flags);
+      break;
+    }
+
+    default:
+      printError(new ValidationError(`Unknown profile subcommand: ${subcommand}`), flags.pretty);
+      printProfileUsage();
+      process.exit(EXIT_CODES.validation_error);
+  }
+}
+
 // Argument parsing helpers
+function clientOptions(flags: GlobalFlags): ClientOptions {
+  return {
+    dev: flags.dev,
+    port: flags.port,
+    profile: flags.profile,
+    env: flags.env,
+    retries: flags.retries,
+    timeout: flags.requestTimeout,
+    verbose: flags.verbose,
+    debug: flags.debug,
+  };
+}
+
+// Branch environment that requests will target; the dev server has none
+function activeEnvironment(flags: GlobalFlags): string | undefined {
+  const client = createClient(clientOptions(flags));
+  return client.dev ? undefined : client.env;
+}
+
+function applyProfileDefaults(flags: GlobalFlags): void {
+  const profile = resolveProfile(flags.profile);
+  if (profile.pretty) {
+    flags.pretty = true;
+  }
+  // A profile format never overrides an explicit --pretty
+  if (profile.format && !flags.format && !flags.pretty) {
+    flags.format = profile.format;
+  }
+}
+
 function parseGlobalFlags(args: string[]): {
   flags: GlobalFlags;
   positional: string[];
@@ -276,6 +601,8 @@ function parseGlobalFlags(args: string[]): {
   const flags: GlobalFlags = {
     pretty: false,
     dev: false,
+    verbose: false,
+    debug: false,
   };
   const positional: string[] = [];
 
@@ -289,6 +616,24 @@ function parseGlobalFlags(args: string[]): {
     } else if (arg === "--dev") {
       flags.dev = true;
       i++;
+    } else if (arg === "--verbose") {
+      flags.verbose = true;
+      i++;
+    } else if (arg === "--debug") {
+      flags.debug = true;
+      i++;
+    } else if (arg === "--retries" && i + 1 < args.length) {
+      flags.retries = parseRetries(args[i + 1]);
+      i += 2;
+    } else if (arg.startsWith("--retries=")) {
+      flags.retries = parseRetries(arg.slice("--retries=".length));
+      i++;
+    } else if (arg === "--request-timeout" && i + 1 < args.length) {
+      flags.requestTimeout = parseDuration(args[i + 1]);
+      i += 2;
+    } else if (arg.startsWith("--request-timeout=")) {
+      flags.requestTimeout = parseDuration(arg.slice("--request-timeout=".length));
+      i++;
     } else if (arg === "--port" && i + 1 < args.length) {
       flags.port = parseInt(args[i + 1], 10);
       i += 2;
@@ -301,6 +646,42 @@ function parseGlobalFlags(args: string[]): {
     } else if (arg.startsWith("--output=")) {
       flags.output = arg.slice("--output=".length);
       i++;
+    } else if (arg === "--format" && i + 1 < args.length) {
+      flags.format = parseFormat(args[i + 1]);
+      i += 2;
+    } else if (arg.startsWith("--format=")) {
+      flags.format = parseFormat(arg.slice("--format=".length));
+      i++;
+    } else if (arg === "--columns" && i + 1 < args.length) {
+      flags.columns = parseList(args[i + 1]);
+      i += 2;
+    } else if (arg.startsWith("--columns=")) {
+      flags.columns = parseList(arg.slice("--columns=".length));
+      i++;
+    } else if (arg === "--fields" && i + 1 < args.length) {
+      flags.fields = parseList(args[i + 1]);
+      i += 2;
+    } else if (arg.startsWith("--fields=")) {
+      flags.fields = parseList(arg.slice("--fields=".length));
+      i++;
+    } else if (arg === "--where" && i + 1 < args.length) {
+      flags.where = args[i + 1];
+      i += 2;
+    } else if (arg.startsWith("--where=")) {
+      flags.where = arg.slice("--where=".length);
+      i++;
+    } else if (arg === "--env" && i + 1 < args.length) {
+      flags.env = args[i + 1];
+      i += 2;
+    } else if (arg.startsWith("--env=")) {
+      flags.env = arg.slice("--env=".length);
+      i++;
+    } else if (arg === "--profile" && i + 1 < args.length) {
+      flags.profile = args[i + 1];
+      i += 2;
+    } else if (arg.startsWith("--profile=")) {
+      flags.profile = arg.slice("--profile=".length);
+      i++;
     } else {
       positional.push(arg);
       i++;
@@ -310,6 +691,26 @@ function parseGlobalFlags(args: string[]): {
   return { flags, positional };
 }
 
+function parseFormat(value: string): OutputFormat {
+  if (!isOutputFormat(value)) {
+    printError(new ValidationError(`--format must be one of: ${OUTPUT_FORMATS.join(", ")}`), false);
+    process.exit(EXIT_CODES.validation_error);
+  }
+  return value;
+}
+
+function parseRetries(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    printError(new ValidationError("--retries must be a non-negative integer"), false);
+    process.exit(EXIT_CODES.validation_error);
+  }
+  return parseInt(value, 10);
+}
+
+function parseList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
 function parseNamedArgs(args: string[]): Record<string, string> {
   const result: Record<string, string> = {};
 
@@ -329,6 +730,8 @@ function parseNamedArgs(args: string[]): Record<string, string> {
         result[key] = args[i + 1];
         i += 2;
       } else {
+        // Flag without a value, e.g. --all
+        result[arg.slice(2)] = "true";
         i++;
       }
     } else {
@@ -339,6 +742,68 @@ function parseNamedArgs(args: string[]): Record<string, string> {
   return result;
 }
 
+// Arguments that are neither flags nor flag values
+function parsePositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+    if (arg.startsWith("--")) {
+      const hasValue = !arg.includes("=") && i + 1 < args.length && !args[i + 1].startsWith("--");
+      i += hasValue ? 2 : 1;
+    } else {
+      positional.push(arg);
+      i++;
+    }
+  }
+
+  return positional;
+}
+
+// All values of a flag that may be given more than once, e.g. --set a=1 --set b=2
+function parseRepeatedArg(args: string[], name: string): string[] {
+  const values: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}` && i + 1 < args.length) {
+      values.push(args[++i]);
+    } else if (args[i].startsWith(`--${name}=`)) {
+      values.push(args[i].slice(name.length + 3));
+    }
+  }
+
+  return values;
+}
+
+function parseIntArg(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError(`${name} must be a non-negative integer`);
+  }
+  return parseInt(value, 10);
+}
+
+// A bare flag is true; anything but true/false is rejected rather than read as false
+function parseBoolArg(value: string | undefined, name: string): boolean {
+  if (value === undefined || value === "false") return false;
+  if (value === "true") return true;
+  throw new ValidationError(`${name} must be true or false`);
+}
+
+function parseDurationArg(value?: string): number | undefined {
+  return value ? parseDuration(value) : undefined;
+}
+
+// Exit codes for commands that wait on runs: failed beats timed out beats cancelled
+function runExitCode(statuses: string[], timedOut: boolean): number {
+  const normalized = statuses.map((status) => status.toLowerCase());
+  if (normalized.includes("failed")) return 1;
+  if (timedOut) return 3;
+  if (normalized.includes("cancelled")) return 2;
+  return 0;
+}
+
 // Usage messages
 function printUsage(): void {
   console.log(`
@@ -351,25 +816,50 @@ Commands:
   events    Send and query events
   runs      Query function runs
   cancel    Cancel running functions
+  trace     Show an event, its runs and their steps as a tree
+  profile   Manage named connection profiles
 
 Global Options:
-  --pretty          Human-readable output with colors
-  --output <file>   Write JSON output to file
-  --dev             Use local dev server (default: localhost:8288)
-  --port <port>     Dev server port (default: 8288)
-  --help, -h        Show this help message
-  --version, -v     Show version
+  --pretty            Human-readable output with colors
+  --output <file>     Write JSON output to file
+  --dev               Use local dev server (default: localhost:8288)
+  --port <port>       Dev server port (default: 8288)
+  --profile <name>    Use a named profile from the config file
+  --env <env>         Branch environment for every request (sent as x-inngest-env)
+  --format <format>   Output format: json, ndjson, csv, tsv, table, yaml
+  --columns <list>    Comma-separated columns to include (e.g., id,name)
+  --fields <paths>    Project each result to these paths (e.g., id,name,data.userId)
+  --where <expr>      Keep results matching an expression (e.g., 'data.plan == "pro"')
+  --retries <n>       Retries for reads and deduplicated sends on 429/5xx (default: 2)
+  --request-timeout <d> Per-request HTTP timeout, e.g. 10s (default: 30s)
+  --verbose           Log each request (method, URL, status, timing, size) and retries to stderr
+  --debug             Like --verbose, plus request headers and request/response bodies
+  --help, -h          Show this help message
+  --version, -v       Show version
 
 Environment Variables:
   INNGEST_EVENT_KEY     Required for sending events (not needed with --dev)
   INNGEST_SIGNING_KEY   Required for API queries
+  INNGEST_SIGNING_KEY_FALLBACK  Tried once when the signing key is rejected (key rotation)
   INNGEST_DEV_URL       Override dev server URL (e.g., http://localhost:9000)
+  INNGEST_PROFILE       Profile to use when --profile is not given
+  INNGEST_ENV           Branch environment when --env is not given
+  INNGEST_CTL_CONFIG    Config file path (default: ~/.config/inngest-ctl/config)
+
+Settings resolve in order: flags, environment variables, profile, defaults.
 
 Examples:
   inngest-ctl events send --name "user.signup" --data '{"userId": "123"}'
   inngest-ctl events get <event-id> --pretty
+  inngest-ctl events list --format csv --columns id,name,receivedAt
+  inngest-ctl events list --where 'data.plan == "pro"' --fields id,data.userId
   inngest-ctl runs get <run-id>
+  inngest-ctl trace <event-id> --depth 2 --pretty
   inngest-ctl cancel --app my-app --function my-func --started-after 1h --started-before now
+  inngest-ctl cancel --app my-app --function my-func --started-after 1h --started-before now --dry-run
+  inngest-ctl cancel run <run-id> <run-id>
+  inngest-ctl cancel list --app my-app --pretty
+  inngest-ctl cancel --if 'event.data.userId == "123"' --if-test <event-id>
 `);
 }
 
@@ -385,26 +875,72 @@ Subcommands:
   send    Send an event
   get     Get event details
   runs    List runs triggered by an event
+  replay  Re-send past events with the same payload
+  tail    Follow new events as they arrive (Ctrl-C to stop)
+  stats   Count events per name and time bucket over a window
 
 List Options:
-  --name <name>     Filter by event name (optional)
-  --limit <n>       Max events to return (optional)
+  --name <name>               Filter by event name (optional)
+  --limit <n>                 Max events to return (optional)
+  --page-size <n>             Events per request when paginating (default: 100)
+  --cursor <cursor>           Resume from a cursor returned in meta.nextCursor
+  --all                       Fetch every page
+  --max <n>                   Fetch pages until n events are collected
+  --received-after <time>     Only events received after time (e.g., 15m, 2024-01-01T00:00:00Z)
+  --received-before <time>    Only events received before time
+
+Runs Options:
+  --started-after <time>      Only runs started after time
+  --started-before <time>     Only runs started before time
 
 Send Options:
   --name <name>         Event name (required)
   --data <json>         Event data as inline JSON (required unless --data-file)
   --data-file <path>    Read event data from a JSON file (required unless --data)
   --id <id>             Deduplication ID (optional)
-  --env <env>           Branch environment name (optional)
+  --wait                Wait for triggered runs to finish; exits 1 if any failed
+  --timeout <duration>  Max time to wait with --wait (default: 5m)
+  --batch-file <path>   Send events from an NDJSON file or JSON array ("-" for stdin)
+                        Each event: { name, data, id?, ts?, user? }; exits 1 if any failed
+
+Stats Options:
+  --since <time>        Start of the window (default: 24h)
+  --until <time>        End of the window (default: now)
+  --bucket <duration>   Bucket width, e.g. 15m, 1h (default: fits about 48 buckets)
+  --name <name>         Only count events with this name
+  --group-by <path>     Also count per value of a field, e.g. data.plan
+  --max <n>             Stop after n events (default: 10000)
+
+Tail Options:
+  --name <name>         Event name or glob, e.g. "user.*" (optional)
+  --interval <duration> Poll interval (default: 2s)
+  --with-runs           Also print runs of new events as they start and finish
+
+Replay Options:
+  <eventId...>          Event IDs to replay (reads stdin when omitted or "-")
+  --to <target>         Send to "dev" or a named profile (default: same as source)
+  --to-env <name>       Branch environment to send to (default: the --to profile's env,
+                        or --env without --to)
+  --id <id>             Explicit dedupe ID (single event only; default: fresh UUID)
+  --set <key=value>     Override a data field; repeatable, dotted keys allowed
 
 Examples:
   inngest-ctl events list --pretty
   inngest-ctl events list --name "user.signup" --limit 10 --pretty
+  inngest-ctl events list --max 500 --page-size 100
+  inngest-ctl events list --received-after 15m --pretty
   inngest-ctl events send --name "user.signup" --data '{"userId": "123"}'
   inngest-ctl events send --name "test.event" --data-file /tmp/event.json --dev
   inngest-ctl events send --name "test.event" --data '{}' --env "feature/my-branch"
+  inngest-ctl events send --name "test.event" --data '{}' --wait --timeout 2m --pretty
+  inngest-ctl events send --batch-file events.ndjson --pretty
+  cat events.json | inngest-ctl events send --batch-file -
   inngest-ctl events get 01H08W4TMBNKMEWFD0TYC532GG --pretty
   inngest-ctl events runs 01H08W4TMBNKMEWFD0TYC532GG --pretty
+  inngest-ctl events replay 01H08W4TMBNKMEWFD0TYC532GG --to dev --set userId=test
+  inngest-ctl events tail --name "user.*" --with-runs --pretty
+  inngest-ctl events stats --since 24h --bucket 1h --name user.signup --pretty
+  inngest-ctl events stats --since 7d --group-by data.plan --format csv
 `);
 }
 
@@ -416,17 +952,75 @@ Usage:
   inngest-ctl runs <subcommand> [options]
 
 Subcommands:
-  status  Get run status and duration
-  get     Get run details (jobs/steps)
-  list    List runs for an event
+  status    Get run status and duration
+  get       Get run details (jobs/steps); --timeline for a Gantt chart
+  list      List runs for an event
+  watch     Poll a run until it completes, fails or is cancelled
+  timeline  Show steps as a Gantt chart with wall vs. active time
+  stats     Per-function run health: statuses, failure rate, durations, top errors
 
 List Options:
-  --event <id>    Event ID to list runs for
+  --event <id>                Event ID to list runs for
+  --started-after <time>      Only runs started after time (e.g., 1h, 2024-01-01T00:00:00Z)
+  --started-before <time>     Only runs started before time
+
+Watch Options:
+  --interval <duration>       Initial poll interval (default: 2s)
+  --max-interval <duration>   Poll interval cap while nothing changes (default: 30s)
+  --timeout <duration>        Give up after this long (e.g., 10m)
+
+Stats Options:
+  --since <time>              Start of the window (default: 6h)
+  --until <time>              End of the window (default: now)
+  --function <id>             Only runs of this function (exact app-prefixed slug, or with --app)
+  --app <id>                  App ID, to match --function by its bare slug
+  --max <n>                   Max events to scan for runs (default: 500)
+  --concurrency <n>           Parallel requests (default: 5)
+
+Watch Exit Codes:
+  0  Completed    1  Failed    2  Cancelled    3  Timed out
 
 Examples:
   inngest-ctl runs status 01H08W5TMBNKMEWFD0TYC532GH --pretty
   inngest-ctl runs get 01H08W5TMBNKMEWFD0TYC532GH --pretty
   inngest-ctl runs list --event 01H08W4TMBNKMEWFD0TYC532GG
+  inngest-ctl runs list --event 01H08W4TMBNKMEWFD0TYC532GG --started-after 30m
+  inngest-ctl runs watch 01H08W5TMBNKMEWFD0TYC532GH --timeout 10m --pretty
+  inngest-ctl runs timeline 01H08W5TMBNKMEWFD0TYC532GH --pretty
+  inngest-ctl runs stats --since 6h --pretty
+  inngest-ctl runs stats --since 1h --app my-app --function send-welcome-email --where 'failureRate > 0.05'
+`);
+}
+
+function printProfileUsage(): void {
+  console.log(`
+Profile Commands:
+
+Usage:
+  inngest-ctl profile <subcommand> [options]
+
+Subcommands:
+  list            List profiles in the config file
+  show [name]     Show a profile (defaults to the active one)
+  use <name>      Set the active profile
+
+Config File (JSON, ~/.config/inngest-ctl/config):
+  {
+    "current": "staging",
+    "profiles": {
+      "prod":    { "signingKey": "signkey-prod-...", "eventKey": "..." },
+      "staging": { "signingKey": "signkey-...", "env": "staging", "pretty": true },
+      "local":   { "dev": true, "devUrl": "http://localhost:9000" }
+    }
+  }
+
+Profile Fields:
+  apiUrl, eventUrl, devUrl, signingKey, signingKeyFallback, eventKey, env, dev, pretty, format
+
+Examples:
+  inngest-ctl profile list --pretty
+  inngest-ctl profile use staging
+  inngest-ctl events list --profile prod --pretty
 `);
 }
 
@@ -434,9 +1028,56 @@ Examples:
 async function readDataFile(filePath: string): Promise<string> {
   const file = Bun.file(filePath);
   if (!(await file.exists())) {
-    throw new Error(`File not found: ${filePath}`);
+    throw new ValidationError(`File not found: ${filePath}`);
   }
   return file.text();
 }
 
+// IDs from arguments, or from stdin as whitespace-separated IDs or as this
+// CLI's own JSON/NDJSON output (taking `key` from each object)
+async function readIdArgs(ids: string[], key = "id"): Promise<string[]> {
+  if (ids.length > 0 && !(ids.length === 1 && ids[0] === "-")) {
+    return ids;
+  }
+  if (ids.length === 0 && process.stdin.isTTY) {
+    return [];
+  }
+  const text = (await Bun.stdin.text()).trim();
+  if (!text.startsWith("[") && !text.startsWith("{")) {
+    return text.split(/\s+/).filter(Boolean);
+  }
+
+  return parseJsonItems(text)
+    .map((item) => (typeof item === "string" ? item : (item as Record<string, unknown>)?.[key]))
+    .filter((id): id is string => typeof id === "string" && id !== "");
+}
+
+// A JSON array, a list result such as `{ "events": [...] }`, a single object or NDJSON
+function parseJsonItems(text: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    try {
+      return text.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+    } catch {
+      throw new ValidationError("Could not parse IDs from stdin: expected IDs, a JSON array or NDJSON");
+    }
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+  const wrapped = parsed as Record<string, unknown>;
+  for (const field of ["events", "runs"]) {
+    if (Array.isArray(wrapped[field])) return wrapped[field] as unknown[];
+  }
+  return [parsed];
+}
+
+async function readBatchInput(filePath: string): Promise<string> {
+  if (filePath === "-") {
+    return Bun.stdin.text();
+  }
+  return readDataFile(filePath);
+}
+
 main();
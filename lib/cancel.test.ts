@@ -0,0 +1,252 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import {
+  cancelRuns,
+  previewCancel,
+  cancelRunsById,
+  listCancellations,
+  getCancellation,
+  deleteCancellation,
+  testCancelExpression,
+} from "./cancel";
+import {
+  createMockServer,
+  mockEventResponse,
+  mockEventsListResponse,
+  mockRunResponse,
+} from "./test-utils";
+
+describe("cancel", () => {
+  let server: Server;
+  let port: number;
+  let cancellations: unknown[] = [];
+  let deleted: string[] = [];
+  let listQueries: string[] = [];
+
+  const RAW_CANCELLATION = {
+    id: "cxl-1",
+    app_id: "my-app",
+    function_id: "my-func",
+    started_after: "2024-01-01T00:00:00Z",
+    started_before: "2024-01-02T00:00:00Z",
+    if: "event.data.userId == '123'",
+  };
+
+  beforeAll(() => {
+    server = createMockServer({
+      routes: [
+        {
+          method: "GET",
+          path: "/v1/events",
+          response: mockEventsListResponse([
+            { id: "evt-1", name: "user.signup", data: { userId: "123" } },
+            { id: "evt-2", name: "user.signup", data: { userId: "456" } },
+          ]),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-1/runs",
+          response: {
+            data: [
+              { run_id: "run-1", status: "Running", function_id: "my-app-my-func", started_at: new Date().toISOString() },
+              { run_id: "run-2", status: "Completed", function_id: "my-app-my-func", started_at: new Date().toISOString() },
+            ],
+          },
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-1",
+          response: mockEventResponse("evt-1", "user.signup", { userId: "123" }),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-2/runs",
+          response: {
+            data: [
+              { run_id: "run-3", status: "Running", function_id: "other-func", started_at: new Date().toISOString() },
+            ],
+          },
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-running",
+          response: mockRunResponse({ runId: "run-running", status: "Running", functionId: "my-func" }),
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-done",
+          response: mockRunResponse({ runId: "run-done", status: "Completed", functionId: "my-func" }),
+        },
+        {
+          method: "DELETE",
+          path: "/v1/runs/",
+          handler: (_, url) => {
+            deleted.push(url.pathname.split("/").pop()!);
+            return {};
+          },
+        },
+        {
+          method: "GET",
+          path: "/v1/cancellations/cxl-1",
+          response: { data: RAW_CANCELLATION },
+        },
+        {
+          method: "GET",
+          path: "/v1/cancellations",
+          handler: (_, url) => {
+            listQueries.push(url.search);
+            return { data: [RAW_CANCELLATION] };
+          },
+        },
+        {
+          method: "DELETE",
+          path: "/v1/cancellations/",
+          handler: (_, url) => {
+            deleted.push(url.pathname.split("/").pop()!);
+            return {};
+          },
+        },
+        {
+          method: "POST",
+          path: "/v1/cancellations",
+          handler: async (req) => {
+            cancellations.push(await req.json());
+            return { id: "cxl-new", cancelled: 1 };
+          },
+        },
+      ],
+    });
+    port = server.port;
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  beforeEach(() => {
+    cancellations = [];
+    deleted = [];
+    listQueries = [];
+    process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+  });
+
+  const options = {
+    appId: "my-app",
+    functionId: "my-func",
+    startedAfter: "1h",
+    startedBefore: "2099-01-01T00:00:00Z",
+    if: "event.data.userId == '123'",
+    dev: true,
+  };
+
+  describe("cancelRuns", () => {
+    test("posts the resolved cancellation", async () => {
+      const result = await cancelRuns(options);
+
+      expect(result.cancelled).toBe(1);
+      expect(result.id).toBe("cxl-new");
+      expect(result.startedBefore).toBe("2099-01-01T00:00:00.000Z");
+      expect(result.if).toBe("event.data.userId == '123'");
+      expect(cancellations).toHaveLength(1);
+      expect(cancellations[0]).toMatchObject({
+        app_id: "my-app",
+        function_id: "my-func",
+        started_before: "2099-01-01T00:00:00.000Z",
+        if: "event.data.userId == '123'",
+      });
+    });
+  });
+
+  describe("previewCancel", () => {
+    test("resolves the request without cancelling", async () => {
+      const preview = await previewCancel(options);
+
+      expect(cancellations).toHaveLength(0);
+      expect(preview.dryRun).toBe(true);
+      expect(preview.request.app_id).toBe("my-app");
+      expect(preview.request.started_after).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(preview.request.if).toBe("event.data.userId == '123'");
+    });
+
+    test("lists running runs of the function", async () => {
+      const preview = await previewCancel({ ...options, if: undefined });
+
+      expect(preview.scannedEvents).toBe(2);
+      expect(preview.matchingRuns.map((run) => run.runId)).toEqual(["run-1"]);
+    });
+
+    test("applies the if expression to each run's event", async () => {
+      const preview = await previewCancel({ ...options, if: "event.data.userId == '456'" });
+
+      expect(preview.matchingRuns).toEqual([]);
+    });
+  });
+
+  describe("if expressions", () => {
+    test("rejects invalid expressions before sending", async () => {
+      await expect(cancelRuns({ ...options, if: "data.userId == '123'" })).rejects.toThrow(
+        "Invalid --if expression: unknown root 'data'"
+      );
+      expect(cancellations).toHaveLength(0);
+    });
+
+    test("sends expressions it cannot check unchanged with a warning", async () => {
+      const result = await cancelRuns({ ...options, if: "size(event.data.items) > 0" });
+
+      expect(cancellations[0]).toMatchObject({ if: "size(event.data.items) > 0" });
+      expect(result.ifWarning).toBe("size() is not checked locally; the expression was sent unchanged");
+    });
+
+    test("does not filter the preview by expressions it cannot evaluate", async () => {
+      const preview = await previewCancel({ ...options, if: "has(event.data.userId)" });
+
+      expect(preview.matchingRuns.map((run) => run.runId)).toEqual(["run-1"]);
+      expect(preview.ifWarning).toContain("has() cannot be evaluated locally");
+    });
+
+    test("tests an expression against a fetched event", async () => {
+      const result = await testCancelExpression("event.data.userId == '123'", "evt-1", { dev: true });
+
+      expect(result).toEqual({ eventId: "evt-1", if: "event.data.userId == '123'", matches: true });
+    });
+  });
+
+  describe("cancelRunsById", () => {
+    test("reports a result per run", async () => {
+      const result = await cancelRunsById(["run-running", "run-done", "run-missing"], { dev: true });
+
+      expect(result.runs).toEqual([
+        { runId: "run-running", result: "cancelled" },
+        { runId: "run-done", result: "already_finished", status: "Completed" },
+        { runId: "run-missing", result: "not_found" },
+      ]);
+      expect(result).toMatchObject({ cancelled: 1, alreadyFinished: 1, notFound: 1, failed: 0 });
+      expect(deleted).toEqual(["run-running"]);
+    });
+  });
+
+  describe("cancellations", () => {
+    test("lists cancellations filtered by app and function", async () => {
+      const result = await listCancellations({ appId: "my-app", functionId: "my-func", dev: true });
+
+      expect(listQueries).toEqual(["?app_id=my-app&function_id=my-func"]);
+      expect(result.cancellations).toEqual([
+        {
+          id: "cxl-1",
+          appId: "my-app",
+          functionId: "my-func",
+          startedAfter: "2024-01-01T00:00:00Z",
+          startedBefore: "2024-01-02T00:00:00Z",
+          if: "event.data.userId == '123'",
+          createdAt: undefined,
+        },
+      ]);
+    });
+
+    test("gets and deletes a cancellation", async () => {
+      expect((await getCancellation("cxl-1", { dev: true })).functionId).toBe("my-func");
+      expect(await deleteCancellation("cxl-1", { dev: true })).toEqual({ id: "cxl-1", deleted: true });
+      expect(deleted).toEqual(["cxl-1"]);
+    });
+  });
+});
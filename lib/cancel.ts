@@ -1,21 +1,58 @@
-import { createClient, apiRequest } from "./client";
+import { createClient, apiRequest, type ClientOptions } from "./client";
+import { listEvents, getEvent, getEventRuns, type EventRun } from "./events";
+import { getRun, isTerminalStatus } from "./runs";
+import { ApiError, CliError, ValidationError } from "./errors";
+import { mapConcurrent } from "./concurrency";
+import { checkExpression, testExpression } from "./cel";
+import { parseTime, isWithinWindow } from "./time";
 
 // Types
-export interface CancelOptions {
+export interface CancelOptions extends ClientOptions {
   appId: string;
   functionId: string;
   startedAfter: string;
   startedBefore: string;
   if?: string;
-  dev?: boolean;
-  port?: number;
 }
 
 export interface CancelResult {
   cancelled: number;
+  // The cancellation keeps matching new runs until it is deleted
+  id?: string;
+  appId: string;
+  functionId: string;
+  startedAfter: string;
+  startedBefore: string;
+  if?: string;
+  // Set when `if` uses CEL the local checker does not cover; it was sent as is
+  ifWarning?: string;
+}
+
+export interface Cancellation {
+  id: string;
+  appId?: string;
+  functionId?: string;
+  startedAfter?: string;
+  startedBefore?: string;
+  if?: string;
+  createdAt?: string;
+}
+
+export interface CancellationListResult {
+  cancellations: Cancellation[];
+}
+
+export interface CancellationDeleteResult {
+  id: string;
+  deleted: boolean;
 }
 
-interface CancelRequest {
+export interface ListCancellationsOptions extends ClientOptions {
+  appId?: string;
+  functionId?: string;
+}
+
+export interface CancelRequest {
   app_id: string;
   function_id: string;
   started_after: string;
@@ -23,68 +60,270 @@ interface CancelRequest {
   if?: string;
 }
 
+export interface CancelPreview {
+  dryRun: true;
+  request: CancelRequest;
+  // Best effort: found by scanning the runs of events received in the window,
+  // with the `if` expression applied to each run's event
+  matchingRuns: EventRun[];
+  scannedEvents: number;
+  truncated: boolean;
+  // Set when `if` could not be evaluated locally, so matchingRuns ignore it
+  ifWarning?: string;
+}
+
+export interface CancelRunsByIdOptions extends ClientOptions {
+  concurrency?: number;
+}
+
+export type RunCancelStatus = "cancelled" | "already_finished" | "not_found" | "failed";
+
+export interface RunCancelOutcome {
+  runId: string;
+  result: RunCancelStatus;
+  // Run status when it had already finished
+  status?: string;
+  error?: string;
+}
+
+export interface RunCancelResult {
+  runs: RunCancelOutcome[];
+  cancelled: number;
+  alreadyFinished: number;
+  notFound: number;
+  failed: number;
+}
+
+interface RawCancellation {
+  id: string;
+  app_id?: string;
+  function_id?: string;
+  started_after?: string;
+  started_before?: string;
+  if?: string;
+  expression?: string;
+  created_at?: string;
+  cancelled?: number;
+}
+
+export interface IfTestResult {
+  eventId: string;
+  if: string;
+  matches: boolean;
+}
+
+// Constants
+const PREVIEW_EVENT_LIMIT = 200;
+const PREVIEW_CONCURRENCY = 5;
+const DEFAULT_CANCEL_CONCURRENCY = 5;
+
 // Main exports
 export async function cancelRuns(options: CancelOptions): Promise<CancelResult> {
-  const client = createClient({ dev: options.dev, port: options.port });
+  const client = createClient(options);
+  const request = buildCancelRequest(options);
+  // Catch typos locally rather than as a server error or a silent no-match
+  const checked = request.if ? checkExpression(request.if) : undefined;
 
-  const body: CancelRequest = {
-    app_id: options.appId,
-    function_id: options.functionId,
-    started_after: parseTime(options.startedAfter),
-    started_before: parseTime(options.startedBefore),
+  const response = await apiRequest<RawCancellation>(
+    client,
+    "POST",
+    "/v1/cancellations",
+    request
+  );
+
+  return {
+    cancelled: response.cancelled ?? 0,
+    id: response.id,
+    appId: request.app_id,
+    functionId: request.function_id,
+    startedAfter: response.started_after ?? request.started_after,
+    startedBefore: response.started_before ?? request.started_before,
+    if: response.if ?? response.expression ?? request.if,
+    ifWarning: checked?.unsupported
+      ? `${checked.unsupported} is not checked locally; the expression was sent unchanged`
+      : undefined,
   };
+}
 
-  if (options.if) {
-    body.if = options.if;
-  }
+export async function listCancellations(
+  options: ListCancellationsOptions = {}
+): Promise<CancellationListResult> {
+  const client = createClient(options);
+
+  const params = new URLSearchParams();
+  if (options.appId) params.set("app_id", options.appId);
+  if (options.functionId) params.set("function_id", options.functionId);
+  const queryString = params.toString();
 
-  const response = await apiRequest<CancelResult>(
+  const response = await apiRequest<{ data?: RawCancellation[] }>(
     client,
-    "POST",
-    "/v1/cancellations",
-    body
+    "GET",
+    `/v1/cancellations${queryString ? `?${queryString}` : ""}`
   );
 
-  return response;
+  return { cancellations: (response.data ?? []).map(normalizeCancellation) };
 }
 
-// Helpers
-function parseTime(input: string): string {
-  // If already ISO format, return as-is
-  if (input.includes("T") || input.includes("-")) {
-    return input;
+export async function getCancellation(
+  id: string,
+  options: ClientOptions = {}
+): Promise<Cancellation> {
+  const client = createClient(options);
+  const response = await apiRequest<{ data?: RawCancellation }>(
+    client,
+    "GET",
+    `/v1/cancellations/${id}`
+  );
+
+  if (!response.data) {
+    throw new ApiError(`Cancellation not found: ${id}`, { status: 404, path: `/v1/cancellations/${id}` });
   }
+  return normalizeCancellation(response.data);
+}
+
+export async function deleteCancellation(
+  id: string,
+  options: ClientOptions = {}
+): Promise<CancellationDeleteResult> {
+  const client = createClient(options);
+  await apiRequest(client, "DELETE", `/v1/cancellations/${id}`);
+  return { id, deleted: true };
+}
+
+// Resolve a cancellation without sending it. Running runs are found through
+// events received in the window, so runs triggered before it are missed
+export async function previewCancel(options: CancelOptions): Promise<CancelPreview> {
+  const request = buildCancelRequest(options);
+  const window = { after: request.started_after, before: request.started_before };
+  const checked = request.if ? checkExpression(request.if) : undefined;
+  const condition = checked?.expr;
+
+  const { events, meta } = await listEvents({
+    ...options,
+    all: true,
+    max: PREVIEW_EVENT_LIMIT,
+    receivedAfter: request.started_after,
+    receivedBefore: request.started_before,
+  });
 
-  // Parse relative time like "1h", "30m", "2d"
-  const match = input.match(/^(\d+)([smhd])$/);
-  if (!match) {
-    throw new Error(
-      `Invalid time format: ${input}. Use ISO format or relative time (e.g., 1h, 30m, 2d)`
+  const matchingEvents = condition
+    ? events.filter((event) => testExpression(condition, event))
+    : events;
+  const runsPerEvent = await mapConcurrent(matchingEvents, PREVIEW_CONCURRENCY, (event) =>
+    getEventRuns(event.id, options)
+  );
+
+  const matchingRuns = runsPerEvent
+    .flat()
+    .filter(
+      (run) =>
+        matchesFunction(run.functionId, options) &&
+        !isTerminalStatus(run.status) &&
+        isWithinWindow(run.startedAt, window)
     );
+
+  return {
+    dryRun: true,
+    request,
+    matchingRuns,
+    scannedEvents: events.length,
+    truncated: Boolean(meta.nextCursor),
+    ifWarning: checked?.unsupported
+      ? `${checked.unsupported} cannot be evaluated locally; matching runs are not filtered by the expression`
+      : undefined,
+  };
+}
+
+// Check an `if` expression locally against a real event
+export async function testCancelExpression(
+  source: string,
+  eventId: string,
+  options: ClientOptions = {}
+): Promise<IfTestResult> {
+  const { expr, unsupported } = checkExpression(source);
+  if (!expr) {
+    throw new ValidationError(`--if-test cannot evaluate ${unsupported} locally`);
+  }
+  const event = await getEvent(eventId, options);
+  return { eventId, if: source, matches: testExpression(expr, event) };
+}
+
+// Each run is looked up first so finished and unknown runs are reported as such
+export async function cancelRunsById(
+  runIds: string[],
+  options: CancelRunsByIdOptions = {}
+): Promise<RunCancelResult> {
+  const runs = await mapConcurrent(
+    runIds,
+    options.concurrency ?? DEFAULT_CANCEL_CONCURRENCY,
+    (runId) => cancelRun(runId, options)
+  );
+
+  const count = (result: RunCancelStatus) => runs.filter((run) => run.result === result).length;
+  return {
+    runs,
+    cancelled: count("cancelled"),
+    alreadyFinished: count("already_finished"),
+    notFound: count("not_found"),
+    failed: count("failed"),
+  };
+}
+
+export async function cancelRun(runId: string, options: ClientOptions = {}): Promise<RunCancelOutcome> {
+  const client = createClient(options);
+
+  try {
+    const run = await getRun(runId, options);
+    if (isTerminalStatus(run.status)) {
+      return { runId, result: "already_finished", status: run.status };
+    }
+
+    await apiRequest(client, "DELETE", `/v1/runs/${runId}`);
+    return { runId, result: "cancelled" };
+  } catch (err) {
+    if (err instanceof CliError && err.code === "not_found") {
+      return { runId, result: "not_found" };
+    }
+    // Ctrl-C and auth problems stop the whole command
+    if (err instanceof CliError && (err.code === "interrupted" || err.code === "auth_error")) {
+      throw err;
+    }
+    return { runId, result: "failed", error: err instanceof Error ? err.message : String(err) };
   }
+}
+
+// Helpers
+function buildCancelRequest(options: CancelOptions): CancelRequest {
+  const body: CancelRequest = {
+    app_id: options.appId,
+    function_id: options.functionId,
+    started_after: parseTime(options.startedAfter),
+    started_before: parseTime(options.startedBefore),
+  };
 
-  const value = parseInt(match[1], 10);
-  const unit = match[2];
-
-  const now = Date.now();
-  let ms: number;
-
-  switch (unit) {
-    case "s":
-      ms = value * 1000;
-      break;
-    case "m":
-      ms = value * 60 * 1000;
-      break;
-    case "h":
-      ms = value * 60 * 60 * 1000;
-      break;
-    case "d":
-      ms = value * 24 * 60 * 60 * 1000;
-      break;
-    default:
-      throw new Error(`Unknown time unit: ${unit}`);
+  if (options.if) {
+    body.if = options.if;
   }
 
-  return new Date(now - ms).toISOString();
+  return body;
+}
+
+function normalizeCancellation(raw: RawCancellation): Cancellation {
+  return {
+    id: raw.id,
+    appId: raw.app_id,
+    functionId: raw.function_id,
+    startedAfter: raw.started_after,
+    startedBefore: raw.started_before,
+    if: raw.if ?? raw.expression,
+    createdAt: raw.created_at,
+  };
+}
+
+// Runs report either the function slug or the app-prefixed slug
+function matchesFunction(runFunctionId: string, options: CancelOptions): boolean {
+  return (
+    runFunctionId === options.functionId ||
+    runFunctionId === `${options.appId}-${options.functionId}`
+  );
 }
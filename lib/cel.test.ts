@@ -0,0 +1,77 @@
+import { describe, test, expect } from "bun:test";
+import { checkExpression, testExpression } from "./cel";
+
+// The parsed expression of a fully checked `if`
+function check(source: string) {
+  return checkExpression(source).expr!;
+}
+
+const EVENT = {
+  id: "evt-1",
+  name: "user.signup",
+  receivedAt: "2024-01-01T00:00:00.000Z",
+  data: { userId: "123", plan: "pro", seats: 5 },
+};
+
+describe("cel", () => {
+  describe("checkExpression", () => {
+    test("accepts paths under event and async", () => {
+      expect(() => checkExpression("event.data.userId == '123' && async.data.ok")).not.toThrow();
+      expect(() => checkExpression("event.data.seats >= 3 || !event.data.trial")).not.toThrow();
+    });
+
+    test("rejects syntax errors", () => {
+      expect(() => checkExpression("event.data.userId == ")).toThrow("Invalid --if expression");
+      expect(() => checkExpression("event.data.userId = '123'")).toThrow("Invalid --if expression");
+    });
+
+    test("rejects unknown roots", () => {
+      expect(() => checkExpression("data.userId == '123'")).toThrow(
+        "unknown root 'data' in data.userId; use event or async"
+      );
+    });
+
+    test("rejects type mismatches", () => {
+      expect(() => checkExpression("'a' == 1")).toThrow("cannot compare string == number");
+      expect(() => checkExpression("event.data.seats > true")).toThrow("'>' needs numbers or strings");
+      expect(() => checkExpression("event.data.plan && 'pro'")).toThrow("'&&' needs booleans");
+      expect(() => checkExpression("(event.data.a == 1) > 2")).toThrow("'>' needs numbers or strings");
+      expect(() => checkExpression("'pro'")).toThrow("expression must be a boolean, got string");
+    });
+
+    test("allows comparing anything with null", () => {
+      expect(() => checkExpression("event.data.userId != null")).not.toThrow();
+    });
+
+    test("passes through CEL it cannot check locally", () => {
+      expect(checkExpression('event.data.id in ["a","b"]')).toEqual({ unsupported: "'in'" });
+      expect(checkExpression('event.data.email.endsWith("@x.com")')).toEqual({ unsupported: "endsWith()" });
+      expect(checkExpression("size(event.data.items) > 0")).toEqual({ unsupported: "size()" });
+      expect(checkExpression("has(event.data.userId)")).toEqual({ unsupported: "has()" });
+      expect(checkExpression("event.data.count + 1 > 2")).toEqual({ unsupported: "'+'" });
+      expect(checkExpression("event.data.items.exists(i, i.sku == 'a')")).toEqual({ unsupported: "exists()" });
+    });
+
+    test("still checks roots in CEL it cannot check locally", () => {
+      expect(() => checkExpression("size(data.items) > 0")).toThrow(
+        "unknown root 'data'; use event or async"
+      );
+    });
+
+    test("treats a dash in a path as subtraction", () => {
+      expect(() => checkExpression('event.data.user-id == "x"')).toThrow(
+        `unknown root 'id'; '-' is subtraction in CEL, use event.data["user-id"] for keys with dashes`
+      );
+      expect(checkExpression('event.data["user-id"] == "x"').expr).toBeDefined();
+      expect(checkExpression("event.data.count > -1").expr).toBeDefined();
+    });
+  });
+
+  describe("testExpression", () => {
+    test("evaluates against an event", () => {
+      expect(testExpression(check("event.data.plan == 'pro'"), EVENT)).toBe(true);
+      expect(testExpression(check("event.data.seats > 10"), EVENT)).toBe(false);
+      expect(testExpression(check("event.name == 'user.signup' && event.ts > 0"), EVENT)).toBe(true);
+    });
+  });
+});
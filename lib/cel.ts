@@ -0,0 +1,156 @@
+import { parseExpression, matches, type Expr } from "./expr";
+import { ValidationError } from "./errors";
+import type { EventDetails } from "./events";
+
+// Types
+export interface CheckedExpression {
+  // Undefined when the expression uses CEL the local checker does not cover
+  expr?: Expr;
+  // The first construct that could not be checked locally, e.g. `size()`
+  unsupported?: string;
+}
+
+type ExprType = "bool" | "string" | "number" | "null" | "dyn";
+
+// Constants
+// `event` is the triggering event; `async` is the event matched by waitForEvent
+const ALLOWED_ROOTS = ["event", "async"];
+const ORDERED_TYPES: ExprType[] = ["string", "number", "dyn"];
+const CEL_KEYWORDS = ["true", "false", "null", "in"];
+// Macros whose first argument binds a variable, e.g. `event.data.items.exists(i, i > 1)`
+const BINDING_MACROS = /\.\s*(?:all|exists|exists_one|map|filter)\s*\(\s*([A-Za-z_]\w*)\s*,/g;
+
+// Main exports
+// Fully checks the CEL subset lib/expr parses; for other CEL (functions, `in`,
+// arithmetic) only roots are checked and `unsupported` names the construct
+export function checkExpression(source: string): CheckedExpression {
+  const stripped = stripStrings(source);
+  const unsupported = findUnsupported(stripped);
+  if (unsupported) {
+    checkRoots(stripped);
+    return { unsupported };
+  }
+
+  try {
+    const expr = parseExpression(source);
+    const type = inferType(expr);
+    if (!isBoolLike(type)) {
+      throw new Error(`expression must be a boolean, got ${type}`);
+    }
+    return { expr };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ValidationError(`Invalid --if expression: ${message}`);
+  }
+}
+
+// Evaluate a checked expression against a fetched event, as `event`
+export function testExpression(expr: Expr, event: EventDetails): boolean {
+  const ts = new Date(event.receivedAt).getTime();
+  return matches(expr, { event: { ...event, ts } });
+}
+
+// Helpers
+// Blank out string contents (keeping the quotes) so they are not scanned as code
+function stripStrings(source: string): string {
+  return source.replace(/(["'])((?:\\.|(?!\1).)*)(\1|$)/g, (_, quote, body, end) =>
+    quote + " ".repeat(body.length) + end
+  );
+}
+
+function findUnsupported(code: string): string | undefined {
+  const call = code.match(/([A-Za-z_]\w*)\s*\(/);
+  if (call) return `${call[1]}()`;
+  if (/\bin\b/.test(code)) return "'in'";
+  // Binary minus; a minus after an operator or bracket starts a negative number
+  if (/[\w\])'"]\s*-/.test(code)) return "'-'";
+  const operator = code.match(/[+*/%?:,{}]/);
+  if (operator) return `'${operator[0]}'`;
+  if (/(?:^|[^\w\])'"\s])\s*\[/.test(code)) return "list literals";
+  return undefined;
+}
+
+// Every identifier that starts a path must be an allowed root or a macro variable
+function checkRoots(code: string): void {
+  const bound = new Set([...code.matchAll(BINDING_MACROS)].map((match) => match[1]));
+
+  for (const match of code.matchAll(/\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[A-Za-z_]\w*/g)) {
+    const name = match[0];
+    const start = match.index!;
+    const before = code.slice(0, start).trimEnd();
+    const after = code.slice(start + name.length).trimStart();
+
+    if (/^\d/.test(name) || before.endsWith(".") || after.startsWith("(")) continue;
+    if (CEL_KEYWORDS.includes(name) || bound.has(name) || ALLOWED_ROOTS.includes(name)) continue;
+
+    // `event.data.user-id` parses as `event.data.user - id`
+    const dashed = code.slice(0, start + name.length).match(/([\w.]+)\.(\w+(?:-\w+)+)$/);
+    const hint = dashed
+      ? `; '-' is subtraction in CEL, use ${dashed[1]}["${dashed[2]}"] for keys with dashes`
+      : `; use ${ALLOWED_ROOTS.join(" or ")}`;
+    throw new ValidationError(`Invalid --if expression: unknown root '${name}'${hint}`);
+  }
+}
+
+function inferType(expr: Expr): ExprType {
+  switch (expr.type) {
+    case "literal":
+      return literalType(expr.value);
+
+    case "path":
+      if (!ALLOWED_ROOTS.includes(expr.path[0])) {
+        throw new Error(
+          `unknown root '${expr.path[0]}' in ${expr.path.join(".")}; use ${ALLOWED_ROOTS.join(" or ")}`
+        );
+      }
+      return "dyn";
+
+    case "not": {
+      const operand = inferType(expr.operand);
+      if (!isBoolLike(operand)) {
+        throw new Error(`'!' needs a boolean, got ${operand}`);
+      }
+      return "bool";
+    }
+
+    case "binary": {
+      const left = inferType(expr.left);
+      const right = inferType(expr.right);
+
+      if (expr.op === "&&" || expr.op === "||") {
+        if (!isBoolLike(left) || !isBoolLike(right)) {
+          throw new Error(`'${expr.op}' needs booleans, got ${left} and ${right}`);
+        }
+        return "bool";
+      }
+
+      if (expr.op === "==" || expr.op === "!=") {
+        // null compares against anything; other concrete types must agree
+        const concrete = left !== "dyn" && right !== "dyn" && left !== "null" && right !== "null";
+        if (concrete && left !== right) {
+          throw new Error(`cannot compare ${left} ${expr.op} ${right}`);
+        }
+        return "bool";
+      }
+
+      if (!ORDERED_TYPES.includes(left) || !ORDERED_TYPES.includes(right)) {
+        throw new Error(`'${expr.op}' needs numbers or strings, got ${left} and ${right}`);
+      }
+      if (left !== "dyn" && right !== "dyn" && left !== right) {
+        throw new Error(`cannot compare ${left} ${expr.op} ${right}`);
+      }
+      return "bool";
+    }
+  }
+}
+
+function literalType(value: unknown): ExprType {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return "bool";
+  if (typeof value === "number") return "number";
+  return "string";
+}
+
+function isBoolLike(type: ExprType): boolean {
+  return type === "bool" || type === "dyn";
+}
@@ -1,17 +1,43 @@
+import { resolveProfile, maskSecret, type Profile } from "./config";
+import { sleep } from "./time";
+import { AuthError, NetworkError, httpError } from "./errors";
+
 // Types
-interface ClientConfig {
+export interface ClientConfig {
   baseUrl: string;
+  eventBaseUrl: string;
   signingKey?: string;
+  // Tried once when the API rejects signingKey, e.g. during a key rotation
+  signingKeyFallback?: string;
   eventKey?: string;
+  env?: string;
   dev?: boolean;
+  retry: RetryPolicy;
+  timeout: number;
+  verbose?: boolean;
+  debug?: boolean;
 }
 
-interface ClientOptions {
+export interface ClientOptions {
   dev?: boolean;
   port?: number;
+  profile?: string;
+  // Branch environment sent as x-inngest-env on every request
+  env?: string;
+  retries?: number;
+  timeout?: number;
+  verbose?: boolean;
+  debug?: boolean;
+}
+
+export interface RetryPolicy {
+  // Extra attempts after the first request
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
 }
 
-interface ApiError {
+interface ApiErrorBody {
   error: string;
   code?: string;
   status: number;
@@ -21,32 +47,102 @@ interface ApiError {
 const PROD_API_URL = "https://api.inngest.com";
 const DEFAULT_DEV_PORT = 8288;
 const EVENT_GATEWAY_URL = "https://inn.gs";
+const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelay: 500, maxDelay: 30000 };
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+// Aborted on Ctrl-C so in-flight requests and polling loops stop together
+const shutdownController = new AbortController();
+// Signing keys the API has rejected; later requests try the other key first
+const rejectedSigningKeys = new Set<string>();
 
 // Main exports
+// Settings resolve as: flags, then environment variables, then profile, then defaults
 export function createClient(options: ClientOptions = {}): ClientConfig {
-  const baseUrl = options.dev ? getDevUrl(options.port) : PROD_API_URL;
-  const signingKey = process.env.INNGEST_SIGNING_KEY;
-  const eventKey = process.env.INNGEST_EVENT_KEY;
+  const profile = resolveProfile(options.profile);
+  const dev = options.dev || profile.dev || false;
+
+  const baseUrl = dev
+    ? getDevUrl(options.port, profile)
+    : stripTrailingSlash(profile.apiUrl || PROD_API_URL);
+  const eventBaseUrl = dev
+    ? baseUrl
+    : stripTrailingSlash(profile.eventUrl || EVENT_GATEWAY_URL);
+  const signingKey = process.env.INNGEST_SIGNING_KEY || profile.signingKey;
+  const signingKeyFallback = process.env.INNGEST_SIGNING_KEY_FALLBACK || profile.signingKeyFallback;
+  const eventKey = process.env.INNGEST_EVENT_KEY || profile.eventKey;
 
-  return { baseUrl, signingKey, eventKey, dev: options.dev };
+  // A NaN or negative count would retry forever or never attempt at all
+  const retries = Number.isFinite(options.retries)
+    ? Math.max(0, Math.floor(options.retries!))
+    : DEFAULT_RETRY_POLICY.retries;
+  const retry = { ...DEFAULT_RETRY_POLICY, retries };
+
+  return {
+    baseUrl,
+    eventBaseUrl,
+    signingKey,
+    signingKeyFallback,
+    eventKey,
+    // An explicit empty env (e.g. a replay target without one) sends none
+    env: options.env ?? (process.env.INNGEST_ENV || profile.env),
+    dev,
+    retry,
+    timeout: options.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    // Debug tracing is a superset of verbose tracing
+    verbose: options.verbose || options.debug,
+    debug: options.debug,
+  };
 }
 
-export function getEventGatewayUrl(eventKey: string, options: ClientOptions = {}): string {
-  if (options.dev) {
-    return `${getDevUrl(options.port)}/e/${eventKey}`;
-  }
-  return `${EVENT_GATEWAY_URL}/e/${eventKey}`;
+export function getEventGatewayUrl(client: ClientConfig, eventKey: string): string {
+  return `${client.eventBaseUrl}/e/${eventKey}`;
 }
 
 // Helpers
-function getDevUrl(port?: number): string {
-  // Check environment variable first, then flag, then default
-  const envUrl = process.env.INNGEST_DEV_URL;
-  if (envUrl) {
-    return envUrl.replace(/\/$/, ""); // Remove trailing slash
+function getDevUrl(port: number | undefined, profile: Profile): string {
+  // Check flag first, then environment variable, then profile, then default
+  if (port !== undefined) {
+    return `http://localhost:${port}`;
+  }
+  const url = process.env.INNGEST_DEV_URL || profile.devUrl;
+  if (url) {
+    return stripTrailingSlash(url);
   }
-  const actualPort = port ?? DEFAULT_DEV_PORT;
-  return `http://localhost:${actualPort}`;
+  return `http://localhost:${DEFAULT_DEV_PORT}`;
+}
+
+function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    // Either delay-seconds or an HTTP date
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+    if (!Number.isNaN(ms)) {
+      return Math.min(Math.max(ms, 0), policy.maxDelay);
+    }
+  }
+
+  const exponential = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// Primary key first unless the API already rejected it this process
+function orderSigningKeys(client: ClientConfig): Array<{ key: string; label: string }> {
+  const keys = [
+    { key: client.signingKey, label: "signing key" },
+    { key: client.signingKeyFallback, label: "fallback signing key" },
+  ].filter(
+    (entry, i, all): entry is { key: string; label: string } =>
+      !!entry.key && all.findIndex((other) => other.key === entry.key) === i
+  );
+  return [
+    ...keys.filter((entry) => !rejectedSigningKeys.has(entry.key)),
+    ...keys.filter((entry) => rejectedSigningKeys.has(entry.key)),
+  ];
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/$/, "");
 }
 
 export async function apiRequest<T>(
@@ -58,42 +154,161 @@ export async function apiRequest<T>(
   const url = `${client.baseUrl}${path}`;
 
   if (!client.dev && !client.signingKey) {
-    throw new Error(
-      "INNGEST_SIGNING_KEY environment variable is required for API requests"
+    throw new AuthError(
+      "INNGEST_SIGNING_KEY environment variable is required for API requests",
+      { path }
     );
   }
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
+  const send = (signingKey?: string) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (signingKey) {
+      headers.Authorization = `Bearer ${signingKey}`;
+    }
+    if (client.env) {
+      headers["x-inngest-env"] = client.env;
+    }
+
+    // Only reads are safe to repeat; a retried POST could cancel or create twice
+    return fetchWithRetry(
+      client,
+      url,
+      { method, headers, body: body ? JSON.stringify(body) : undefined },
+      method === "GET"
+    );
   };
-  if (client.signingKey) {
-    headers.Authorization = `Bearer ${client.signingKey}`;
-  }
 
-  const response = await fetch(url, {
-    method,
-    headers,
-    body: body ? JSON.stringify(body) : undefined,
-  });
+  // A rejected key never reached the handler, so any request can be resent
+  const [first, second] = orderSigningKeys(client);
+  let response = await send(first?.key);
+  if (second && (response.status === 401 || response.status === 403)) {
+    rejectedSigningKeys.add(first.key);
+    logVerbose(
+      client,
+      `${method} ${redactUrl(url)} returned ${response.status} with the ${first.label}; retrying with the ${second.label}`
+    );
+    await response.body?.cancel();
+    response = await send(second.key);
+    if (response.ok) {
+      logVerbose(client, `Authenticated with the ${second.label} (${maskSecret(second.key)})`);
+    } else if (response.status === 401 || response.status === 403) {
+      rejectedSigningKeys.add(second.key);
+    }
+  }
 
   if (!response.ok) {
     const errorBody = await response.text();
     let errorMessage: string;
     try {
-      const parsed = JSON.parse(errorBody) as ApiError;
+      const parsed = JSON.parse(errorBody) as ApiErrorBody;
       errorMessage = parsed.error || errorBody;
     } catch {
       errorMessage = errorBody;
     }
-    throw new Error(`API request failed (${response.status}): ${errorMessage}`);
+    throw httpError(response.status, `API request failed (${response.status}): ${errorMessage}`, path);
+  }
+
+  // DELETE endpoints may answer 204 with no body
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+// Retries network errors, timeouts, 429s and 5xx with jittered backoff (or
+// Retry-After) unless `retryable: false`; returns the final response as-is
+export async function fetchWithRetry(
+  client: ClientConfig,
+  url: string,
+  init: RequestInit,
+  retryable: boolean
+): Promise<Response> {
+  const attempts = retryable ? client.retry.retries + 1 : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    let reason: string;
+
+    const shutdown = getShutdownSignal();
+    const signal = AbortSignal.any([AbortSignal.timeout(client.timeout), shutdown]);
+    const method = init.method ?? "GET";
+    const safeUrl = redactUrl(url);
+    const started = performance.now();
+
+    traceRequest(client, method, safeUrl, init);
+    try {
+      response = await fetch(url, { ...init, signal });
+      await traceResponse(client, method, safeUrl, response, started);
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= attempts) {
+        return response;
+      }
+      reason = `${response.status} ${response.statusText}`.trim();
+    } catch (err) {
+      if (shutdown.aborted) {
+        throw new NetworkError(`Request cancelled: ${method} ${safeUrl}`, "interrupted");
+      }
+      const timedOut = err instanceof Error && err.name === "TimeoutError";
+      reason = timedOut
+        ? `timed out after ${client.timeout / 1000}s`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+      logVerbose(client, `${method} ${safeUrl} failed after ${elapsed(started)}: ${reason}`);
+      if (attempt >= attempts) {
+        throw timedOut
+          ? new NetworkError(`Request ${reason}: ${method} ${safeUrl}`, "timeout", {
+              hint: "Raise --request-timeout or check the API status",
+            })
+          : new NetworkError(`Request failed: ${method} ${safeUrl}: ${reason}`, "network_error", {
+              hint: client.dev
+                ? "Is the dev server running? Start it with `npx inngest-cli@latest dev`"
+                : "Check your network connection",
+            });
+      }
+    }
+
+    const delay = getRetryDelay(client.retry, attempt, response?.headers.get("retry-after"));
+    logVerbose(
+      client,
+      `Retrying ${method} ${safeUrl} in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${attempts}): ${reason}`
+    );
+    await response?.body?.cancel();
+    await sleep(delay, shutdown);
   }
+}
 
-  return response.json() as Promise<T>;
+export function getShutdownSignal(): AbortSignal {
+  return shutdownController.signal;
+}
+
+export function requestShutdown(): void {
+  shutdownController.abort();
+}
+
+export function logVerbose(client: ClientConfig, message: string): void {
+  if (client.verbose) {
+    console.error(`[inngest-ctl] ${message}`);
+  }
+}
+
+// Mask the event key embedded in gateway URLs (`/e/<key>`)
+export function redactUrl(url: string): string {
+  return url.replace(/\/e\/([^/?#]+)/, (_, key: string) => `/e/${maskSecret(key)}`);
+}
+
+// Mask the bearer token in an Authorization header
+export function redactHeaders(headers: RequestInit["headers"]): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    const bearer = name === "authorization" && value.match(/^Bearer\s+(.+)$/i);
+    redacted[name] = bearer ? `Bearer ${maskSecret(bearer[1])}` : value;
+  });
+  return redacted;
 }
 
 export function validateEventKey(eventKey?: string): string {
   if (!eventKey) {
-    throw new Error(
+    throw new AuthError(
       "INNGEST_EVENT_KEY environment variable is required for sending events"
     );
   }
@@ -102,9 +317,50 @@ export function validateEventKey(eventKey?: string): string {
 
 export function validateSigningKey(signingKey?: string): string {
   if (!signingKey) {
-    throw new Error(
+    throw new AuthError(
       "INNGEST_SIGNING_KEY environment variable is required for API requests"
     );
   }
   return signingKey;
 }
+
+// Tracing helpers
+function traceRequest(client: ClientConfig, method: string, url: string, init: RequestInit): void {
+  if (!client.debug) return;
+  logVerbose(client, `> ${method} ${url}`);
+  for (const [name, value] of Object.entries(redactHeaders(init.headers))) {
+    logVerbose(client, `> ${name}: ${value}`);
+  }
+  if (typeof init.body === "string") {
+    logVerbose(client, `> ${init.body}`);
+  }
+}
+
+async function traceResponse(
+  client: ClientConfig,
+  method: string,
+  url: string,
+  response: Response,
+  started: number
+): Promise<void> {
+  if (!client.verbose) return;
+
+  // Read a copy so callers can still consume the body
+  const body = await response.clone().text();
+  const size = formatBytes(new TextEncoder().encode(body).length);
+  const status = `${response.status} ${response.statusText}`.trim();
+  logVerbose(client, `${method} ${url} ${status} (${elapsed(started)}, ${size})`);
+
+  if (client.debug && body) {
+    logVerbose(client, `< ${body}`);
+  }
+}
+
+function elapsed(started: number): string {
+  return `${Math.round(performance.now() - started)}ms`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  return `${(bytes / 1024).toFixed(1)}KB`;
+}
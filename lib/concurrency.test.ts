@@ -0,0 +1,40 @@
+import { describe, test, expect } from "bun:test";
+import { mapConcurrent } from "./concurrency";
+import { sleep } from "./time";
+
+describe("concurrency", () => {
+  describe("mapConcurrent", () => {
+    test("keeps input order", async () => {
+      const result = await mapConcurrent([30, 10, 20], 3, async (ms) => {
+        await sleep(ms);
+        return ms;
+      });
+
+      expect(result).toEqual([30, 10, 20]);
+    });
+
+    test("never exceeds the limit", async () => {
+      let active = 0;
+      let peak = 0;
+
+      await mapConcurrent([1, 2, 3, 4, 5, 6], 2, async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(5);
+        active--;
+      });
+
+      expect(peak).toBe(2);
+    });
+
+    test("runs one at a time when the limit is not a number", async () => {
+      const result = await mapConcurrent([1, 2, 3], NaN, async (n) => n * 2);
+
+      expect(result).toEqual([2, 4, 6]);
+    });
+
+    test("handles empty input", async () => {
+      expect(await mapConcurrent([], 4, async (x) => x)).toEqual([]);
+    });
+  });
+});
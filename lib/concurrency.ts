@@ -0,0 +1,23 @@
+// Main exports
+// Map over items with at most `limit` calls in flight; results keep input order
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  // A NaN limit would start no workers and silently skip every item
+  const size = Number.isFinite(limit) ? Math.max(limit, 1) : 1;
+  const workers = Array.from({ length: Math.min(size, items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { rmSync } from "node:fs";
+import {
+  loadConfig,
+  saveConfig,
+  resolveProfile,
+  listProfiles,
+  showProfile,
+  useProfile,
+  maskSecret,
+} from "./config";
+import { createClient } from "./client";
+
+const CONFIG_PATH = "/tmp/inngest-ctl-test-config/config";
+
+describe("config", () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.INNGEST_CTL_CONFIG = CONFIG_PATH;
+    delete process.env.INNGEST_PROFILE;
+    delete process.env.INNGEST_SIGNING_KEY;
+    delete process.env.INNGEST_EVENT_KEY;
+    delete process.env.INNGEST_DEV_URL;
+
+    saveConfig({
+      current: "staging",
+      profiles: {
+        prod: {
+          signingKey: "signkey-prod-1234567890abcdef",
+          eventKey: "prod-event-key",
+        },
+        staging: {
+          apiUrl: "https://staging.example.com/",
+          signingKey: "signkey-staging-1234567890",
+          env: "staging",
+        },
+        local: { dev: true, devUrl: "http://localhost:9000" },
+      },
+    });
+  });
+
+  afterEach(() => {
+    rmSync(CONFIG_PATH, { force: true });
+    process.env = { ...savedEnv };
+  });
+
+  describe("loadConfig", () => {
+    test("returns empty config when file is missing", () => {
+      rmSync(CONFIG_PATH, { force: true });
+
+      expect(loadConfig()).toEqual({ current: undefined, profiles: {} });
+    });
+  });
+
+  describe("resolveProfile", () => {
+    test("uses the current profile by default", () => {
+      expect(resolveProfile().env).toBe("staging");
+    });
+
+    test("explicit name wins over INNGEST_PROFILE", () => {
+      process.env.INNGEST_PROFILE = "local";
+
+      expect(resolveProfile().dev).toBe(true);
+      expect(resolveProfile("prod").eventKey).toBe("prod-event-key");
+    });
+
+    test("throws for unknown profile", () => {
+      expect(() => resolveProfile("nope")).toThrow("Profile not found: nope");
+    });
+  });
+
+  describe("createClient", () => {
+    test("applies profile settings", () => {
+      const client = createClient();
+
+      expect(client.baseUrl).toBe("https://staging.example.com");
+      expect(client.signingKey).toBe("signkey-staging-1234567890");
+      expect(client.env).toBe("staging");
+    });
+
+    test("environment variables override profile", () => {
+      process.env.INNGEST_SIGNING_KEY = "from-env";
+
+      expect(createClient({ profile: "prod" }).signingKey).toBe("from-env");
+    });
+
+    test("flags override environment and profile for the dev URL", () => {
+      process.env.INNGEST_DEV_URL = "http://localhost:7000";
+
+      expect(createClient({ profile: "local" }).baseUrl).toBe("http://localhost:7000");
+      expect(createClient({ profile: "local", port: 8000 }).baseUrl).toBe("http://localhost:8000");
+    });
+
+    test("profile can enable dev mode", () => {
+      const client = createClient({ profile: "local" });
+
+      expect(client.dev).toBe(true);
+      expect(client.baseUrl).toBe("http://localhost:9000");
+    });
+  });
+
+  describe("profile commands", () => {
+    test("listProfiles marks the active profile", () => {
+      const result = listProfiles();
+
+      expect(result.profiles.map((p) => p.name)).toEqual(["prod", "staging", "local"]);
+      expect(result.profiles.find((p) => p.active)?.name).toBe("staging");
+    });
+
+    test("INNGEST_PROFILE and --profile pick the active profile like requests do", () => {
+      process.env.INNGEST_PROFILE = "prod";
+
+      expect(listProfiles().profiles.find((p) => p.active)?.name).toBe("prod");
+      expect(showProfile()).toMatchObject({ name: "prod", active: true });
+      expect(showProfile("staging").active).toBe(false);
+      expect(showProfile(undefined, "local")).toMatchObject({ name: "local", active: true });
+      expect(listProfiles("local").profiles.find((p) => p.active)?.name).toBe("local");
+    });
+
+    test("showProfile masks secrets", () => {
+      const profile = showProfile("prod");
+
+      expect(profile.signingKey).toBe("signkey-****cdef");
+      expect(profile.eventKey).toBe("prod-eve****-key");
+    });
+
+    test("useProfile switches the active profile", () => {
+      useProfile("prod");
+
+      expect(loadConfig().current).toBe("prod");
+    });
+  });
+
+  describe("maskSecret", () => {
+    test("fully masks short secrets", () => {
+      expect(maskSecret("short")).toBe("****");
+      expect(maskSecret(undefined)).toBeUndefined();
+    });
+  });
+});
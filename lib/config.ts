@@ -0,0 +1,154 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { OutputFormat } from "./format";
+import { ValidationError } from "./errors";
+
+// Types
+export interface Profile {
+  apiUrl?: string;
+  eventUrl?: string;
+  devUrl?: string;
+  signingKey?: string;
+  // Used when the API rejects signingKey, e.g. during a key rotation
+  signingKeyFallback?: string;
+  eventKey?: string;
+  env?: string;
+  dev?: boolean;
+  pretty?: boolean;
+  format?: OutputFormat;
+}
+
+export interface ConfigFile {
+  current?: string;
+  profiles: Record<string, Profile>;
+}
+
+export interface ProfileSummary {
+  name: string;
+  active: boolean;
+  target: string;
+}
+
+export interface ProfileDetails extends Profile {
+  name: string;
+  active: boolean;
+}
+
+export interface ProfileListResult {
+  profiles: ProfileSummary[];
+  configPath: string;
+}
+
+// Main exports
+export function getConfigPath(): string {
+  if (process.env.INNGEST_CTL_CONFIG) {
+    return process.env.INNGEST_CTL_CONFIG;
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "inngest-ctl", "config");
+}
+
+export function loadConfig(): ConfigFile {
+  const path = getConfigPath();
+  if (!existsSync(path)) {
+    return { profiles: {} };
+  }
+
+  let parsed: Partial<ConfigFile>;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    throw new ValidationError(`Config file must be valid JSON: ${path}`);
+  }
+
+  return { current: parsed.current, profiles: parsed.profiles ?? {} };
+}
+
+export function saveConfig(config: ConfigFile): void {
+  const path = getConfigPath();
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+}
+
+// --profile, then INNGEST_PROFILE, then `current`; an empty profile when none is set
+export function resolveProfile(name?: string): Profile {
+  const explicit = name || process.env.INNGEST_PROFILE;
+  const config = loadConfig();
+  const selected = activeProfileName(config, name);
+
+  if (selected && config.profiles[selected]) {
+    return config.profiles[selected];
+  }
+  if (explicit) {
+    throw new ValidationError(`Profile not found: ${explicit}`);
+  }
+  return {};
+}
+
+// `selected` is the --profile flag, which marks the active profile like it does for requests
+export function listProfiles(selected?: string): ProfileListResult {
+  const config = loadConfig();
+  const active = activeProfileName(config, selected);
+  const profiles = Object.entries(config.profiles).map(([name, profile]) => ({
+    name,
+    active: name === active,
+    target: describeTarget(profile),
+  }));
+
+  return { profiles, configPath: getConfigPath() };
+}
+
+// Shows `name`, or the active profile when omitted
+export function showProfile(name?: string, selected?: string): ProfileDetails {
+  const config = loadConfig();
+  const active = activeProfileName(config, selected);
+  const profileName = name || active;
+  if (!profileName) {
+    throw new ValidationError("No profile selected. Pass a name or run `inngest-ctl profile use <name>`");
+  }
+
+  const profile = config.profiles[profileName];
+  if (!profile) {
+    throw new ValidationError(`Profile not found: ${profileName}`);
+  }
+
+  return {
+    name: profileName,
+    active: profileName === active,
+    ...profile,
+    signingKey: maskSecret(profile.signingKey),
+    signingKeyFallback: maskSecret(profile.signingKeyFallback),
+    eventKey: maskSecret(profile.eventKey),
+  };
+}
+
+export function useProfile(name: string): ProfileDetails {
+  const config = loadConfig();
+  if (!config.profiles[name]) {
+    throw new ValidationError(`Profile not found: ${name}`);
+  }
+
+  config.current = name;
+  saveConfig(config);
+  return showProfile(name);
+}
+
+export function maskSecret(secret?: string): string | undefined {
+  if (!secret) return secret;
+  if (secret.length <= 12) return "****";
+  return `${secret.slice(0, 8)}****${secret.slice(-4)}`;
+}
+
+// Helpers
+// Same order as requests use: --profile, then INNGEST_PROFILE, then `current`
+function activeProfileName(config: ConfigFile, name?: string): string | undefined {
+  return name || process.env.INNGEST_PROFILE || config.current;
+}
+
+function describeTarget(profile: Profile): string {
+  if (profile.dev) {
+    return profile.devUrl || "dev server";
+  }
+  return profile.apiUrl || "https://api.inngest.com";
+}
@@ -0,0 +1,79 @@
+import { describe, test, expect } from "bun:test";
+import {
+  ApiError,
+  AuthError,
+  NetworkError,
+  ValidationError,
+  httpError,
+  describeError,
+  exitCodeFor,
+  isTransientError,
+} from "./errors";
+
+describe("errors", () => {
+  describe("httpError", () => {
+    test("maps 401 and 403 to AuthError", () => {
+      const err = httpError(401, "API request failed (401): unauthorized", "/v1/events");
+
+      expect(err).toBeInstanceOf(AuthError);
+      expect(err.status).toBe(401);
+      expect(err.path).toBe("/v1/events");
+      expect(err.exitCode).toBe(5);
+    });
+
+    test("gives 404 and 429 their own codes", () => {
+      expect(httpError(404, "missing", "/v1/runs/x").code).toBe("not_found");
+      expect(httpError(429, "slow down", "/v1/events").code).toBe("rate_limited");
+      expect(httpError(500, "boom", "/v1/events").code).toBe("api_error");
+    });
+  });
+
+  describe("describeError", () => {
+    test("describes typed errors", () => {
+      const err = new ApiError("missing", { status: 404, path: "/v1/runs/x" });
+
+      expect(describeError(err)).toEqual({
+        error: "missing",
+        code: "not_found",
+        status: 404,
+        hint: "Check the ID and that it belongs to this environment",
+      });
+    });
+
+    test("falls back to a generic code for plain errors", () => {
+      expect(describeError(new Error("boom"))).toEqual({
+        error: "boom",
+        code: "error",
+        status: null,
+        hint: null,
+      });
+    });
+  });
+
+  describe("exitCodeFor", () => {
+    test("uses a distinct exit code per error type", () => {
+      expect(exitCodeFor(new ValidationError("bad"))).toBe(4);
+      expect(exitCodeFor(new AuthError("no key"))).toBe(5);
+      expect(exitCodeFor(new NetworkError("down"))).toBe(9);
+      expect(exitCodeFor(new NetworkError("slow", "timeout"))).toBe(10);
+      expect(exitCodeFor(new NetworkError("stop", "interrupted"))).toBe(130);
+      expect(exitCodeFor(new Error("other"))).toBe(1);
+    });
+  });
+
+  describe("isTransientError", () => {
+    test("treats network trouble, rate limits and 5xx as transient", () => {
+      expect(isTransientError(new NetworkError("down"))).toBe(true);
+      expect(isTransientError(new NetworkError("slow", "timeout"))).toBe(true);
+      expect(isTransientError(httpError(429, "slow down", "/v1/events"))).toBe(true);
+      expect(isTransientError(httpError(503, "unavailable", "/v1/events"))).toBe(true);
+    });
+
+    test("treats auth, client errors and Ctrl-C as fatal", () => {
+      expect(isTransientError(httpError(401, "unauthorized", "/v1/events"))).toBe(false);
+      expect(isTransientError(httpError(404, "missing", "/v1/events/x"))).toBe(false);
+      expect(isTransientError(new NetworkError("stop", "interrupted"))).toBe(false);
+      expect(isTransientError(new Error("boom"))).toBe(false);
+    });
+  });
+});
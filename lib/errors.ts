@@ -0,0 +1,148 @@
+// Types
+export type ErrorCode =
+  | "error"
+  | "validation_error"
+  | "auth_error"
+  | "not_found"
+  | "rate_limited"
+  | "api_error"
+  | "network_error"
+  | "timeout"
+  | "interrupted";
+
+export interface ErrorDetails {
+  error: string;
+  code: ErrorCode;
+  status: number | null;
+  hint: string | null;
+}
+
+interface ErrorOptions {
+  status?: number;
+  path?: string;
+  hint?: string;
+}
+
+// Constants
+// 1-3 are shared with run outcomes (failed, cancelled, timed out)
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  error: 1,
+  validation_error: 4,
+  auth_error: 5,
+  not_found: 6,
+  rate_limited: 7,
+  api_error: 8,
+  network_error: 9,
+  timeout: 10,
+  interrupted: 130,
+};
+
+// Main exports
+export class CliError extends Error {
+  readonly code: ErrorCode;
+  readonly status?: number;
+  readonly path?: string;
+  readonly hint?: string;
+
+  constructor(message: string, code: ErrorCode, options: ErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = options.status;
+    this.path = options.path;
+    this.hint = options.hint;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODES[this.code];
+  }
+}
+
+// Bad flags, arguments, input files or config
+export class ValidationError extends CliError {
+  constructor(message: string, hint?: string) {
+    super(message, "validation_error", { hint });
+  }
+}
+
+// Missing credentials, or a 401/403 from the API or event gateway
+export class AuthError extends CliError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, "auth_error", {
+      hint: "Check INNGEST_SIGNING_KEY / INNGEST_EVENT_KEY or the keys in your profile",
+      ...options,
+    });
+  }
+}
+
+// Any other non-2xx response; 404 and 429 get their own codes
+export class ApiError extends CliError {
+  declare readonly status: number;
+  declare readonly path: string;
+
+  constructor(message: string, options: ErrorOptions & { status: number; path: string }) {
+    super(message, apiErrorCode(options.status), {
+      hint: apiErrorHint(options.status),
+      ...options,
+    });
+  }
+}
+
+// The request never got a response: connection failure, timeout or Ctrl-C
+export class NetworkError extends CliError {
+  constructor(
+    message: string,
+    code: "network_error" | "timeout" | "interrupted" = "network_error",
+    options: ErrorOptions = {}
+  ) {
+    super(message, code, options);
+  }
+}
+
+// Pick the error type for a failed HTTP response
+export function httpError(status: number, message: string, path: string): CliError {
+  if (status === 401 || status === 403) {
+    return new AuthError(message, { status, path });
+  }
+  return new ApiError(message, { status, path });
+}
+
+export function describeError(err: unknown): ErrorDetails {
+  if (err instanceof CliError) {
+    return {
+      error: err.message,
+      code: err.code,
+      status: err.status ?? null,
+      hint: err.hint ?? null,
+    };
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return { error: message, code: "error", status: null, hint: null };
+}
+
+export function exitCodeFor(err: unknown): number {
+  return err instanceof CliError ? err.exitCode : EXIT_CODES.error;
+}
+
+// Errors worth waiting out in long-running loops: network trouble, rate limits and 5xx
+export function isTransientError(err: unknown): boolean {
+  if (!(err instanceof CliError)) return false;
+  if (err.code === "network_error" || err.code === "timeout" || err.code === "rate_limited") {
+    return true;
+  }
+  return err.code === "api_error" && (err.status ?? 0) >= 500;
+}
+
+// Helpers
+function apiErrorCode(status: number): ErrorCode {
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  return "api_error";
+}
+
+function apiErrorHint(status: number): string | undefined {
+  if (status === 404) return "Check the ID and that it belongs to this environment";
+  if (status === 429) return "Rate limited; wait and retry, or raise --retries";
+  if (status >= 500) return "Inngest returned a server error; retry later";
+  return undefined;
+}
@@ -1,6 +1,16 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import type { Server } from "bun";
-import { getEvent, listEvents, getEventRuns } from "./events";
+import {
+  getEvent,
+  listEvents,
+  getEventRuns,
+  waitForEventRuns,
+  parseEventBatch,
+  sendEventBatch,
+  tailEvents,
+  type EventDetails,
+  type EventRun,
+} from "./events";
 import {
   createMockServer,
   mockEventResponse,
@@ -11,10 +21,21 @@ import {
 describe("events", () => {
   let server: Server;
   let port: number;
+  let batchRequests = 0;
 
   beforeAll(() => {
     server = createMockServer({
       routes: [
+        {
+          method: "POST",
+          path: "/e/",
+          handler: async (req) => {
+            batchRequests++;
+            const body = await req.json();
+            const events = Array.isArray(body) ? body : [body];
+            return { ids: events.map((e: { name: string }, i: number) => `${e.name}-${i}`), status: 200 };
+          },
+        },
         {
           method: "GET",
           path: "/v1/events/evt-123",
@@ -28,10 +49,30 @@ describe("events", () => {
         {
           method: "GET",
           path: "/v1/events",
-          response: mockEventsListResponse([
-            { id: "evt-1", name: "user.signup", data: { userId: "u1" } },
-            { id: "evt-2", name: "order.created", data: { orderId: "o1" } },
-          ]),
+          handler: (_req, url) => {
+            if (url.searchParams.get("name") === "stuck") {
+              // Ignores the cursor and serves the same full page every time
+              return mockEventsListResponse([
+                { id: "evt-s1", name: "stuck" },
+                { id: "evt-s2", name: "stuck" },
+              ]);
+            }
+            if (url.searchParams.get("name") !== "paged") {
+              return mockEventsListResponse([
+                { id: "evt-1", name: "user.signup", data: { userId: "u1" } },
+                { id: "evt-2", name: "order.created", data: { orderId: "o1" } },
+              ]);
+            }
+            // Five events served in pages, with the cursor as an offset
+            const limit = Number(url.searchParams.get("limit") || 100);
+            const offset = Number(url.searchParams.get("cursor") || 0);
+            const ids = [1, 2, 3, 4, 5].slice(offset, offset + limit);
+            const next = offset + ids.length;
+            return {
+              ...mockEventsListResponse(ids.map((n) => ({ id: `evt-p${n}`, name: "paged" }))),
+              cursor: next < 5 ? String(next) : undefined,
+            };
+          },
         },
         {
           method: "GET",
@@ -41,6 +82,14 @@ describe("events", () => {
             { runId: "run-2", status: "Running", functionId: "test-func" },
           ]),
         },
+        {
+          method: "GET",
+          path: "/v1/events/evt-done/runs",
+          response: mockEventRunsResponse([
+            { runId: "run-3", status: "Completed", functionId: "test-func" },
+            { runId: "run-4", status: "Failed", functionId: "other-func" },
+          ]),
+        },
         {
           method: "GET",
           path: "/v1/events/evt-no-runs/runs",
@@ -90,6 +139,72 @@ describe("events", () => {
       expect(result.events[1].id).toBe("evt-2");
       expect(result.events[1].name).toBe("order.created");
       expect(result.meta.fetchedAt).toBeDefined();
+      expect(result.meta.pages).toBe(1);
+      expect(result.meta.nextCursor).toBeUndefined();
+    });
+
+    test("fetches a single page and exposes the next cursor", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await listEvents({ name: "paged", pageSize: 2, dev: true });
+
+      expect(result.events.map((e) => e.id)).toEqual(["evt-p1", "evt-p2"]);
+      expect(result.meta.nextCursor).toBe("2");
+    });
+
+    test("resumes from a cursor", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await listEvents({ name: "paged", pageSize: 2, cursor: "2", dev: true });
+
+      expect(result.events.map((e) => e.id)).toEqual(["evt-p3", "evt-p4"]);
+    });
+
+    test("fetches every page with all", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await listEvents({ name: "paged", pageSize: 2, all: true, dev: true });
+
+      expect(result.events).toHaveLength(5);
+      expect(result.meta.pages).toBe(3);
+      expect(result.meta.total).toBe(5);
+      expect(result.meta.nextCursor).toBeUndefined();
+    });
+
+    test("stops when the server ignores the cursor", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await listEvents({ name: "stuck", pageSize: 2, all: true, dev: true });
+
+      expect(result.events.map((e) => e.id)).toEqual(["evt-s1", "evt-s2"]);
+      expect(result.meta.pages).toBe(2);
+      expect(result.meta.nextCursor).toBeUndefined();
+    });
+
+    test("filters by received time", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const recent = await listEvents({ receivedAfter: "15m", dev: true });
+      const old = await listEvents({ receivedBefore: "15m", dev: true });
+
+      expect(recent.events).toHaveLength(2);
+      expect(old.events).toHaveLength(0);
+    });
+
+    test("stops at max", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await listEvents({ name: "paged", pageSize: 2, max: 3, dev: true });
+
+      expect(result.events.map((e) => e.id)).toEqual(["evt-p1", "evt-p2", "evt-p3"]);
+      expect(result.meta.pages).toBe(2);
+      expect(result.meta.nextCursor).toBe("3");
     });
   });
 
@@ -107,6 +222,17 @@ describe("events", () => {
       expect(runs[1].status).toBe("Running");
     });
 
+    test("filters runs by start time", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const recent = await getEventRuns("evt-with-runs", { startedAfter: "1h", dev: true });
+      const old = await getEventRuns("evt-with-runs", { startedBefore: "1h", dev: true });
+
+      expect(recent).toHaveLength(2);
+      expect(old).toHaveLength(0);
+    });
+
     test("returns empty array when no runs", async () => {
       process.env.INNGEST_SIGNING_KEY = "test-key";
       process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
@@ -116,4 +242,207 @@ describe("events", () => {
       expect(runs).toHaveLength(0);
     });
   });
+
+  describe("waitForEventRuns", () => {
+    test("returns once every run has finished", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await waitForEventRuns(["evt-done"], { dev: true });
+
+      expect(result.timedOut).toBe(false);
+      expect(result.events[0].eventId).toBe("evt-done");
+      expect(result.events[0].runs.map((r) => r.status)).toEqual(["Completed", "Failed"]);
+    });
+
+    test("times out while runs are still going", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await waitForEventRuns(["evt-done", "evt-with-runs", "evt-no-runs"], {
+        interval: 10,
+        timeout: 50,
+        dev: true,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.events.map((e) => e.runs.length)).toEqual([2, 2, 0]);
+    });
+
+    test("settles events that trigger no runs after the discovery timeout", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await waitForEventRuns(["evt-done", "evt-no-runs"], {
+        interval: 10,
+        timeout: 5000,
+        discoveryTimeout: 30,
+        dev: true,
+      });
+
+      expect(result.timedOut).toBe(false);
+      expect(result.events.map((e) => e.runs.length)).toEqual([2, 0]);
+    });
+  });
+
+  describe("parseEventBatch", () => {
+    test("parses NDJSON and skips blank lines", () => {
+      const inputs = parseEventBatch(
+        '{"name":"a","data":{"x":1}}\n\n{"name":"b","id":"dedup","ts":1700000000000}\n'
+      );
+
+      expect(inputs).toEqual([
+        { line: 1, event: { name: "a", data: { x: 1 } } },
+        { line: 3, event: { name: "b", data: {}, id: "dedup", ts: 1700000000000 } },
+      ]);
+    });
+
+    test("parses a JSON array", () => {
+      const inputs = parseEventBatch('[{"name":"a"},{"name":"b","user":{"id":"u1"}}]');
+
+      expect(inputs.map((i) => i.line)).toEqual([1, 2]);
+      expect(inputs[1].event?.user).toEqual({ id: "u1" });
+    });
+
+    test("records invalid lines as errors", () => {
+      const inputs = parseEventBatch('not json\n{"data":{}}\n{"name":"a","data":"x"}');
+
+      expect(inputs.map((i) => i.error)).toEqual([
+        "Invalid JSON",
+        "Event name is required",
+        "Event data must be an object",
+      ]);
+    });
+  });
+
+  describe("sendEventBatch", () => {
+    test("maps each input line to its returned ID or error", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await sendEventBatch(
+        parseEventBatch('{"name":"a"}\nbad\n{"name":"b"}'),
+        { dev: true }
+      );
+
+      expect(result.sent).toBe(2);
+      expect(result.failed).toBe(1);
+      expect(result.results).toEqual([
+        { line: 1, name: "a", id: "a-0" },
+        { line: 2, error: "Invalid JSON" },
+        { line: 3, name: "b", id: "b-1" },
+      ]);
+    });
+
+    test("splits large inputs into multiple requests", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+      batchRequests = 0;
+
+      const lines = Array.from({ length: 1001 }, () => '{"name":"bulk"}').join("\n");
+      const result = await sendEventBatch(parseEventBatch(lines), { dev: true });
+
+      expect(result.sent).toBe(1001);
+      expect(result.batches).toBe(2);
+      expect(batchRequests).toBe(2);
+    });
+  });
+
+  describe("tailEvents", () => {
+    let tailServer: Server;
+    let listCalls = 0;
+    let runCalls = 0;
+    let names: Array<string | null> = [];
+
+    const rawEvent = (id: string, name: string, receivedAt: string) => ({
+      id,
+      internal_id: id,
+      name,
+      received_at: receivedAt,
+      data: {},
+    });
+    const existing = rawEvent("evt-old", "user.signup", "2024-01-01T10:00:00.000Z");
+    // Newest first, as the API returns them
+    const arrived = [
+      rawEvent("evt-order", "order.created", "2024-01-01T10:00:02.000Z"),
+      rawEvent("evt-new", "user.login", "2024-01-01T10:00:01.000Z"),
+      existing,
+    ];
+
+    beforeAll(() => {
+      tailServer = createMockServer({
+        routes: [
+          {
+            method: "GET",
+            path: "/v1/events/",
+            handler: () => {
+              runCalls++;
+              const status = runCalls === 1 ? "Running" : "Completed";
+              return mockEventRunsResponse([{ runId: "run-new", status, functionId: "on-login" }]);
+            },
+          },
+          {
+            method: "GET",
+            path: "/v1/events",
+            handler: (_req, url) => {
+              listCalls++;
+              const name = url.searchParams.get("name");
+              names.push(name);
+              if (listCalls === 2) return Response.json({ error: "unavailable" }, { status: 503 });
+              const events = listCalls === 1 ? [existing] : arrived;
+              return { data: events.filter((event) => !name || event.name === name) };
+            },
+          },
+        ],
+      });
+    });
+
+    afterAll(() => {
+      tailServer.stop();
+    });
+
+    const tail = async (name?: string, withRuns = false) => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${tailServer.port}`;
+      listCalls = 0;
+      runCalls = 0;
+      names = [];
+
+      const events: EventDetails[] = [];
+      const runs: EventRun[] = [];
+      const errors: unknown[] = [];
+      const result = await tailEvents({
+        name,
+        withRuns,
+        interval: 5,
+        maxPolls: 4,
+        retries: 0,
+        dev: true,
+        onEvent: (event) => events.push(event),
+        onRun: (_eventId, run) => runs.push(run),
+        onError: (err) => errors.push(err),
+      });
+      return { result, events, runs, errors };
+    };
+
+    test("reports only new events, once each in receive order, and survives transient errors", async () => {
+      const { result, events, errors } = await tail();
+
+      expect(events.map((event) => event.id)).toEqual(["evt-new", "evt-order"]);
+      expect(errors).toHaveLength(1);
+      expect(result).toEqual({ events: 2, polls: 4, errors: 1, interrupted: false });
+    });
+
+    test("sends exact names to the API", async () => {
+      const { events } = await tail("order.created");
+
+      expect(names[0]).toBe("order.created");
+      expect(events.map((event) => event.id)).toEqual(["evt-order"]);
+    });
+
+    test("matches globs locally and follows runs of new events", async () => {
+      const { events, runs } = await tail("user.*", true);
+
+      expect(names[0]).toBeNull();
+      expect(events.map((event) => event.id)).toEqual(["evt-new"]);
+      expect(runs.map((run) => run.status)).toEqual(["Running", "Completed"]);
+    });
+  });
 });
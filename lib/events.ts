@@ -3,16 +3,21 @@ import {
   getEventGatewayUrl,
   validateEventKey,
   apiRequest,
+  fetchWithRetry,
+  getShutdownSignal,
+  type ClientConfig,
+  type ClientOptions,
 } from "./client";
+import { isTerminalStatus } from "./runs";
+import { ValidationError, httpError, isTransientError } from "./errors";
+import { mapConcurrent } from "./concurrency";
+import { parseTime, isWithinWindow, sleep } from "./time";
 
 // Types
-export interface SendEventOptions {
+export interface SendEventOptions extends ClientOptions {
   name: string;
   data: Record<string, unknown>;
   id?: string;
-  env?: string;
-  dev?: boolean;
-  port?: number;
 }
 
 export interface EventResult {
@@ -33,14 +38,25 @@ export interface EventListResult {
   meta: {
     fetchedAt: string;
     total?: number;
+    pages?: number;
+    nextCursor?: string;
   };
 }
 
-export interface ListEventsOptions {
+export interface ListEventsOptions extends ClientOptions {
   name?: string;
   limit?: number;
-  dev?: boolean;
-  port?: number;
+  cursor?: string;
+  pageSize?: number;
+  all?: boolean;
+  max?: number;
+  receivedAfter?: string;
+  receivedBefore?: string;
+}
+
+export interface EventRunsOptions extends ClientOptions {
+  startedAfter?: string;
+  startedBefore?: string;
 }
 
 export interface EventRun {
@@ -53,10 +69,75 @@ export interface EventRun {
   output?: unknown;
 }
 
-interface EventPayload {
+export interface WaitForRunsOptions extends ClientOptions {
+  interval?: number;
+  timeout?: number;
+  // An event with no runs after this long counts as triggering none
+  discoveryTimeout?: number;
+}
+
+export interface EventRunOutcome {
+  runId: string;
+  functionId: string;
+  status: string;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs?: number;
+  output?: unknown;
+}
+
+export interface EventWaitResult {
+  events: Array<{ eventId: string; runs: EventRunOutcome[] }>;
+  timedOut: boolean;
+  interrupted: boolean;
+}
+
+export interface TailEventsOptions extends ClientOptions {
+  // Exact event name, or a glob such as `user.*` matched locally
+  name?: string;
+  interval?: number;
+  withRuns?: boolean;
+  // Stop after this many polls; by default tails until Ctrl-C
+  maxPolls?: number;
+  onEvent?: (event: EventDetails) => void;
+  onRun?: (eventId: string, run: EventRun) => void;
+  onError?: (err: unknown) => void;
+}
+
+export interface EventTailResult {
+  events: number;
+  polls: number;
+  errors: number;
+  interrupted: boolean;
+}
+
+export type SendBatchOptions = ClientOptions;
+
+export interface BatchEventInput {
+  line: number;
+  event?: EventPayload;
+  error?: string;
+}
+
+export interface BatchEventResult {
+  line: number;
+  name?: string;
+  id?: string;
+  error?: string;
+}
+
+export interface BatchSendResult {
+  sent: number;
+  failed: number;
+  batches: number;
+  results: BatchEventResult[];
+}
+
+export interface EventPayload {
   name: string;
   data: Record<string, unknown>;
   id?: string;
+  ts?: number;
   user?: Record<string, unknown>;
 }
 
@@ -92,6 +173,12 @@ interface GetEventRunsResponse {
   data: RawEventRun[];
 }
 
+interface TrackedEvent {
+  eventId: string;
+  seenAt: number;
+  statuses: Map<string, string>;
+}
+
 interface RawEvent {
   id: string;
   internal_id?: string;
@@ -105,28 +192,36 @@ interface RawEvent {
 
 interface ListEventsResponse {
   data: RawEvent[];
+  cursor?: string;
   metadata?: {
     fetched_at?: string;
+    cursor?: string;
   };
 }
 
+// Constants
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_WAIT_INTERVAL = 1000;
+const DEFAULT_WAIT_TIMEOUT = 5 * 60 * 1000;
+const MAX_WAIT_INTERVAL = 10000;
+// Runs usually appear within seconds; after this an event without any triggered none
+const WAIT_RUN_DISCOVERY_MS = 15000;
+const MAX_BATCH_BYTES = 512 * 1024;
+const MAX_BATCH_EVENTS = 1000;
+const DEFAULT_TAIL_INTERVAL = 2000;
+const MAX_TAIL_ERROR_INTERVAL = 30000;
+const TAIL_PAGE_SIZE = 100;
+const TAIL_MAX_PER_POLL = 1000;
+// Re-query slightly before the newest event seen to catch late or out-of-order events
+const TAIL_OVERLAP_MS = 30000;
+// Stop looking for runs of an event that has triggered none after this long
+const TAIL_RUN_DISCOVERY_MS = 60000;
+const MAX_TAIL_TRACKED_EVENTS = 100;
+const TAIL_RUN_CONCURRENCY = 5;
+
 // Main exports
 export async function sendEvent(options: SendEventOptions): Promise<EventResult> {
-  const client = createClient({ dev: options.dev, port: options.port });
-
-  // Dev server accepts any event key - use placeholder if not set
-  const eventKey = options.dev
-    ? (client.eventKey || "test")
-    : validateEventKey(client.eventKey);
-
-  const url = getEventGatewayUrl(eventKey, { dev: options.dev, port: options.port });
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-
-  if (options.env) {
-    headers["x-inngest-env"] = options.env;
-  }
+  const client = createClient(options);
 
   const payload: EventPayload = {
     name: options.name,
@@ -137,30 +232,87 @@ export async function sendEvent(options: SendEventOptions): Promise<EventResult>
     payload.id = options.id;
   }
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  });
+  return postEvents(client, [payload]);
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to send event (${response.status}): ${errorText}`);
+// Chunked to stay under gateway limits; a failed chunk fails only its own events
+export async function sendEventBatch(
+  inputs: BatchEventInput[],
+  options: SendBatchOptions = {}
+): Promise<BatchSendResult> {
+  const client = createClient(options);
+  const results: BatchEventResult[] = [];
+  const valid: Array<{ line: number; payload: EventPayload }> = [];
+
+  for (const input of inputs) {
+    if (input.error !== undefined) {
+      results.push({ line: input.line, error: input.error });
+    } else if (input.event) {
+      valid.push({ line: input.line, payload: input.event });
+    }
   }
 
-  const result = (await response.json()) as SendEventResponse;
+  const chunks = chunkPayloads(valid, results);
+
+  for (const chunk of chunks) {
+    try {
+      const response = await postEvents(
+        client,
+        chunk.map((item) => item.payload)
+      );
+      chunk.forEach((item, i) => {
+        results.push({ line: item.line, name: item.payload.name, id: response.ids[i] });
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      for (const item of chunk) {
+        results.push({ line: item.line, name: item.payload.name, error: message });
+      }
+    }
+  }
+
+  results.sort((a, b) => a.line - b.line);
+  const failed = results.filter((result) => result.error !== undefined).length;
 
   return {
-    ids: result.ids || [],
-    status: response.status,
+    sent: results.length - failed,
+    failed,
+    batches: chunks.length,
+    results,
   };
 }
 
+// A JSON array or NDJSON; `line` is 1-based (the element position for arrays)
+export function parseEventBatch(text: string): BatchEventInput[] {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("[")) {
+    let items: unknown[];
+    try {
+      items = JSON.parse(trimmed);
+    } catch {
+      throw new ValidationError("Batch input looks like a JSON array but is not valid JSON");
+    }
+    return items.map((item, i) => toBatchInput(i + 1, item));
+  }
+
+  const inputs: BatchEventInput[] = [];
+  text.split("\n").forEach((rawLine, i) => {
+    if (!rawLine.trim()) return;
+    try {
+      inputs.push(toBatchInput(i + 1, JSON.parse(rawLine)));
+    } catch {
+      inputs.push({ line: i + 1, error: "Invalid JSON" });
+    }
+  });
+  return inputs;
+}
+
 export async function getEvent(
   eventId: string,
-  options: { dev?: boolean; port?: number } = {}
+  options: ClientOptions = {}
 ): Promise<EventDetails> {
-  const client = createClient({ dev: options.dev, port: options.port });
+  const client = createClient(options);
   const response = await apiRequest<{ data: RawEvent }>(
     client,
     "GET",
@@ -179,39 +331,408 @@ export async function getEvent(
 
 export async function getEventRuns(
   eventId: string,
-  options: { dev?: boolean; port?: number } = {}
+  options: EventRunsOptions = {}
 ): Promise<EventRun[]> {
-  const client = createClient({ dev: options.dev, port: options.port });
+  const client = createClient(options);
   const response = await apiRequest<GetEventRunsResponse>(
     client,
     "GET",
     `/v1/events/${eventId}/runs`
   );
-  return normalizeEventRuns(response.data || []);
+
+  const window = {
+    after: options.startedAfter ? parseTime(options.startedAfter) : undefined,
+    before: options.startedBefore ? parseTime(options.startedBefore) : undefined,
+  };
+  return normalizeEventRuns(response.data || []).filter((run) =>
+    isWithinWindow(run.startedAt, window)
+  );
 }
 
-export async function listEvents(options: ListEventsOptions = {}): Promise<EventListResult> {
-  const client = createClient({ dev: options.dev, port: options.port });
+// Until every run has finished, the timeout or Ctrl-C; an event with no runs
+// after the discovery timeout counts as triggering none
+export async function waitForEventRuns(
+  eventIds: string[],
+  options: WaitForRunsOptions = {}
+): Promise<EventWaitResult> {
+  const interval = options.interval ?? DEFAULT_WAIT_INTERVAL;
+  const startedAt = Date.now();
+  const deadline = startedAt + (options.timeout ?? DEFAULT_WAIT_TIMEOUT);
+  const discoveryTimeout = options.discoveryTimeout ?? WAIT_RUN_DISCOVERY_MS;
+  const runsByEvent = new Map<string, EventRun[]>();
+  const shutdown = getShutdownSignal();
+
+  const buildResult = (timedOut: boolean, interrupted: boolean): EventWaitResult => ({
+    events: eventIds.map((eventId) => ({
+      eventId,
+      runs: (runsByEvent.get(eventId) ?? []).map(toRunOutcome),
+    })),
+    timedOut,
+    interrupted,
+  });
 
-  const params = new URLSearchParams();
-  if (options.limit) params.set("limit", options.limit.toString());
-  if (options.name) params.set("name", options.name);
+  const isDone = (eventId: string): boolean => {
+    const runs = runsByEvent.get(eventId);
+    const triggeredNone = runs?.length === 0 && Date.now() - startedAt >= discoveryTimeout;
+    return isSettled(runs) || triggeredNone;
+  };
 
-  const queryString = params.toString();
-  const path = `/v1/events${queryString ? `?${queryString}` : ""}`;
+  let delay = interval;
+
+  while (true) {
+    const pending = eventIds.filter((id) => !isDone(id));
+    try {
+      const results = await Promise.all(pending.map((id) => getEventRuns(id, options)));
+      pending.forEach((id, i) => runsByEvent.set(id, results[i]));
+    } catch (err) {
+      // Ctrl-C mid-poll: report what has been seen so far
+      if (shutdown.aborted) return buildResult(false, true);
+      throw err;
+    }
+
+    const settled = eventIds.every(isDone);
+    const remaining = deadline - Date.now();
+    if (settled || remaining <= 0) {
+      return buildResult(!settled, false);
+    }
+
+    await sleep(Math.min(delay, remaining), shutdown);
+    if (shutdown.aborted) return buildResult(false, true);
+    delay = Math.min(delay * 1.5, Math.max(MAX_WAIT_INTERVAL, interval));
+  }
+}
+
+// The first poll only records what already exists; later polls report new
+// events once each. Transient errors go to `onError` and polling backs off
+export async function tailEvents(options: TailEventsOptions = {}): Promise<EventTailResult> {
+  const interval = options.interval ?? DEFAULT_TAIL_INTERVAL;
+  const pattern = options.name?.includes("*") ? globToRegExp(options.name) : undefined;
+  // Globs cannot be sent to the API, so every event is fetched and filtered here
+  const name = pattern ? undefined : options.name;
+  const shutdown = getShutdownSignal();
+
+  const seen = new Map<string, number>();
+  const tracked = new Map<string, TrackedEvent>();
+  let newest: number | undefined;
+  let seeded = false;
+  let events = 0;
+  let polls = 0;
+  let errors = 0;
+  let delay = interval;
+
+  const result = (interrupted: boolean): EventTailResult => ({ events, polls, errors, interrupted });
+
+  while (true) {
+    try {
+      const { events: page } = await listEvents({
+        ...options,
+        name,
+        ...(newest === undefined
+          ? { limit: TAIL_PAGE_SIZE }
+          : {
+              all: true,
+              max: TAIL_MAX_PER_POLL,
+              pageSize: TAIL_PAGE_SIZE,
+              receivedAfter: new Date(newest - TAIL_OVERLAP_MS).toISOString(),
+            }),
+      });
+
+      const fresh = page
+        .filter((event) => !seen.has(event.id))
+        .sort((a, b) => toMs(a.receivedAt) - toMs(b.receivedAt));
+      for (const event of fresh) {
+        const receivedAt = toMs(event.receivedAt);
+        seen.set(event.id, receivedAt);
+        newest = Math.max(newest ?? receivedAt, receivedAt);
+        if (!seeded || (pattern && !pattern.test(event.name))) continue;
+
+        events++;
+        options.onEvent?.(event);
+        if (options.withRuns) {
+          tracked.set(event.id, { eventId: event.id, seenAt: Date.now(), statuses: new Map() });
+        }
+      }
+      seeded = true;
+      pruneSeen(seen, newest);
+      trimTracked(tracked);
+
+      if (options.withRuns && tracked.size > 0) {
+        await pollTrackedRuns(tracked, options);
+      }
+      delay = interval;
+    } catch (err) {
+      if (shutdown.aborted) return result(true);
+      if (!isTransientError(err)) throw err;
+      errors++;
+      options.onError?.(err);
+      delay = Math.min(delay * 2, Math.max(MAX_TAIL_ERROR_INTERVAL, interval));
+    }
+    polls++;
+
+    if (options.maxPolls !== undefined && polls >= options.maxPolls) {
+      return result(false);
+    }
+
+    await sleep(delay, shutdown);
+    if (shutdown.aborted) return result(true);
+  }
+}
+
+export async function listEvents(options: ListEventsOptions = {}): Promise<EventListResult> {
+  const client = createClient(options);
+
+  // Without --all or --max only a single page is fetched
+  const paginate = options.all || options.max !== undefined;
+  const max = options.max ?? Infinity;
+  const pageSize = options.pageSize ?? options.limit;
+  const window = {
+    after: options.receivedAfter ? parseTime(options.receivedAfter) : undefined,
+    before: options.receivedBefore ? parseTime(options.receivedBefore) : undefined,
+  };
 
-  const response = await apiRequest<ListEventsResponse>(client, "GET", path);
+  const events: EventDetails[] = [];
+  const seen = new Set<string>();
+  let cursor = options.cursor;
+  let fetchedAt: string | undefined;
+  let pages = 0;
+
+  do {
+    const remaining = max - events.length;
+    const limit = paginate ? Math.min(pageSize ?? DEFAULT_PAGE_SIZE, remaining) : pageSize;
+
+    const params = new URLSearchParams();
+    if (limit) params.set("limit", limit.toString());
+    if (options.name) params.set("name", options.name);
+    if (cursor) params.set("cursor", cursor);
+    if (window.after) params.set("received_after", window.after);
+    if (window.before) params.set("received_before", window.before);
+
+    const queryString = params.toString();
+    const path = `/v1/events${queryString ? `?${queryString}` : ""}`;
+
+    const response = await apiRequest<ListEventsResponse>(client, "GET", path);
+    const page = response.data || [];
+
+    fetchedAt ??= response.metadata?.fetched_at;
+    const fresh = normalizeEventList(page).filter((event) => !seen.has(event.id));
+    fresh.forEach((event) => seen.add(event.id));
+    // The window is also applied locally for servers that ignore the params
+    events.push(...fresh.filter((event) => isWithinWindow(event.receivedAt, window)));
+
+    const previous = cursor;
+    cursor = getNextCursor(response, limit);
+    pages++;
+    // A server that ignores the cursor returns the same page again
+    if (paginate && (cursor === previous || fresh.length === 0)) {
+      cursor = undefined;
+    }
+  } while (paginate && cursor && events.length < max);
 
   return {
-    events: normalizeEventList(response.data || []),
+    events,
     meta: {
-      fetchedAt: response.metadata?.fetched_at || new Date().toISOString(),
-      total: response.data?.length,
+      fetchedAt: fetchedAt || new Date().toISOString(),
+      total: events.length,
+      pages,
+      nextCursor: cursor,
     },
   };
 }
 
 // Helpers
+async function postEvents(client: ClientConfig, payloads: EventPayload[]): Promise<EventResult> {
+  // Dev server accepts any event key - use placeholder if not set
+  const eventKey = client.dev
+    ? (client.eventKey || "test")
+    : validateEventKey(client.eventKey);
+
+  const url = getEventGatewayUrl(client, eventKey);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (client.env) {
+    headers["x-inngest-env"] = client.env;
+  }
+
+  // Retrying is only safe when the gateway can deduplicate every event by ID
+  const deduplicated = payloads.every((payload) => payload.id);
+  const response = await fetchWithRetry(
+    client,
+    url,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payloads.length === 1 ? payloads[0] : payloads),
+    },
+    deduplicated
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw httpError(
+      response.status,
+      `Failed to send event (${response.status}): ${errorText}`,
+      // Never expose the event key
+      "/e/<key>"
+    );
+  }
+
+  const result = (await response.json()) as SendEventResponse;
+
+  return {
+    ids: result.ids || [],
+    status: response.status,
+  };
+}
+
+function toBatchInput(line: number, raw: unknown): BatchEventInput {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { line, error: "Event must be a JSON object" };
+  }
+
+  const event = raw as Record<string, unknown>;
+  if (typeof event.name !== "string" || !event.name) {
+    return { line, error: "Event name is required" };
+  }
+  if (event.data !== undefined && (typeof event.data !== "object" || event.data === null)) {
+    return { line, error: "Event data must be an object" };
+  }
+
+  const payload: EventPayload = {
+    name: event.name,
+    data: (event.data as Record<string, unknown>) ?? {},
+  };
+  if (typeof event.id === "string") payload.id = event.id;
+  if (typeof event.ts === "number") payload.ts = event.ts;
+  if (typeof event.user === "object" && event.user !== null) {
+    payload.user = event.user as Record<string, unknown>;
+  }
+
+  return { line, event: payload };
+}
+
+// Group payloads into chunks under the gateway's size and count limits.
+// Events that are too large on their own are recorded as failures.
+function chunkPayloads<T extends { line: number; payload: EventPayload }>(
+  items: T[],
+  results: BatchEventResult[]
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentBytes = 2; // Enclosing brackets
+
+  for (const item of items) {
+    const bytes = Buffer.byteLength(JSON.stringify(item.payload)) + 1;
+    if (bytes > MAX_BATCH_BYTES) {
+      results.push({
+        line: item.line,
+        name: item.payload.name,
+        error: `Event exceeds the ${MAX_BATCH_BYTES / 1024}KB payload limit`,
+      });
+      continue;
+    }
+
+    if (current.length >= MAX_BATCH_EVENTS || currentBytes + bytes > MAX_BATCH_BYTES) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 2;
+    }
+
+    current.push(item);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// Report runs that are new or changed status; stop tracking settled events
+async function pollTrackedRuns(
+  tracked: Map<string, TrackedEvent>,
+  options: TailEventsOptions
+): Promise<void> {
+  const entries = [...tracked.values()];
+  const results = await mapConcurrent(entries, TAIL_RUN_CONCURRENCY, (entry) =>
+    getEventRuns(entry.eventId, options)
+  );
+
+  entries.forEach((entry, i) => {
+    const runs = results[i];
+    for (const run of runs) {
+      if (entry.statuses.get(run.runId) === run.status) continue;
+      entry.statuses.set(run.runId, run.status);
+      options.onRun?.(entry.eventId, run);
+    }
+
+    const discoveryOver = runs.length === 0 && Date.now() - entry.seenAt > TAIL_RUN_DISCOVERY_MS;
+    if (isSettled(runs) || discoveryOver) {
+      tracked.delete(entry.eventId);
+    }
+  });
+}
+
+// Forget IDs old enough that the overlapping query can no longer return them
+function pruneSeen(seen: Map<string, number>, newest: number | undefined): void {
+  if (newest === undefined) return;
+  const cutoff = newest - 2 * TAIL_OVERLAP_MS;
+  for (const [id, receivedAt] of seen) {
+    if (receivedAt < cutoff) seen.delete(id);
+  }
+}
+
+// Maps iterate in insertion order, so the oldest tracked events go first
+function trimTracked(tracked: Map<string, TrackedEvent>): void {
+  for (const eventId of tracked.keys()) {
+    if (tracked.size <= MAX_TAIL_TRACKED_EVENTS) return;
+    tracked.delete(eventId);
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+function toMs(ts: string): number {
+  return new Date(ts).getTime();
+}
+
+function isSettled(runs?: EventRun[]): boolean {
+  return !!runs && runs.length > 0 && runs.every((run) => isTerminalStatus(run.status));
+}
+
+function toRunOutcome(run: EventRun): EventRunOutcome {
+  const durationMs =
+    run.startedAt && run.endedAt
+      ? new Date(run.endedAt).getTime() - new Date(run.startedAt).getTime()
+      : undefined;
+
+  return {
+    runId: run.runId,
+    functionId: run.functionId,
+    status: run.status,
+    startedAt: run.startedAt,
+    endedAt: run.endedAt,
+    durationMs,
+    output: run.output,
+  };
+}
+
+function getNextCursor(response: ListEventsResponse, limit?: number): string | undefined {
+  const explicit = response.cursor || response.metadata?.cursor;
+  if (explicit) return explicit;
+
+  // A short page means there is nothing left; otherwise the last event's
+  // internal ID is the cursor for the next page
+  const page = response.data || [];
+  if (page.length === 0 || page.length < (limit ?? DEFAULT_PAGE_SIZE)) return undefined;
+  const last = page[page.length - 1];
+  return last.internal_id || last.id;
+}
+
 function normalizeEventList(raw: RawEvent[]): EventDetails[] {
   return raw.map((event) => ({
     id: event.id,
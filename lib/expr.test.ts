@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test";
+import { parseExpression, evaluate, matches, parsePath, getPath } from "./expr";
+
+const event = {
+  id: "evt-1",
+  name: "user.signup",
+  data: { plan: "pro", seats: 5, trial: false, tags: ["a", "b"], items: [{ sku: "W-1" }] },
+};
+
+function check(source: string): boolean {
+  return matches(parseExpression(source), event);
+}
+
+describe("expr", () => {
+  describe("parseExpression", () => {
+    test("compares paths to literals", () => {
+      expect(check('data.plan == "pro"')).toBe(true);
+      expect(check("data.plan == 'free'")).toBe(false);
+      expect(check("data.seats >= 5")).toBe(true);
+      expect(check("data.seats < 5")).toBe(false);
+      expect(check('name != "order.created"')).toBe(true);
+    });
+
+    test("supports boolean logic and grouping", () => {
+      expect(check('data.plan == "pro" && !data.trial')).toBe(true);
+      expect(check('data.plan == "free" || data.seats > 3')).toBe(true);
+      expect(check('!(data.plan == "pro" || data.trial)')).toBe(false);
+    });
+
+    test("reads indexed paths", () => {
+      expect(check('data.items[0].sku == "W-1"')).toBe(true);
+      expect(check('data.tags[1] == "b"')).toBe(true);
+    });
+
+    test("treats missing fields as null", () => {
+      expect(check("data.missing == null")).toBe(true);
+      expect(check("data.missing")).toBe(false);
+    });
+
+    test("does not order mixed types", () => {
+      expect(check('data.seats > "1"')).toBe(false);
+    });
+
+    test("reports syntax errors with positions", () => {
+      expect(() => parseExpression('data.plan == "pro')).toThrow("Unterminated string at position 13");
+      expect(() => parseExpression("data.plan ==")).toThrow("Unexpected end of expression");
+      expect(() => parseExpression("data.plan pro")).toThrow("Unexpected 'pro' at position 10");
+      expect(() => parseExpression("data.plan = 1")).toThrow("Unexpected character '='");
+    });
+  });
+
+  describe("evaluate", () => {
+    test("returns path values", () => {
+      expect(evaluate(parseExpression("data.tags"), event)).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("parsePath", () => {
+    test("splits dotted and indexed paths", () => {
+      expect(parsePath("data.items[0].sku")).toEqual(["data", "items", "0", "sku"]);
+      expect(getPath(event, parsePath("data.items[0].sku"))).toBe("W-1");
+    });
+
+    test("rejects empty segments", () => {
+      expect(() => parsePath("data..plan")).toThrow("Invalid path: data..plan");
+    });
+  });
+});
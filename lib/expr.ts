@@ -0,0 +1,281 @@
+import { ValidationError } from "./errors";
+
+// Types
+export type Expr =
+  | { type: "literal"; value: unknown }
+  | { type: "path"; path: string[] }
+  | { type: "not"; operand: Expr }
+  | { type: "binary"; op: BinaryOp; left: Expr; right: Expr };
+
+export type BinaryOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "&&" | "||";
+
+interface Token {
+  kind: "string" | "number" | "ident" | "op" | "lparen" | "rparen" | "lbracket" | "rbracket" | "dot";
+  value: string;
+  pos: number;
+}
+
+// Constants
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!"];
+const COMPARISON_OPERATORS = ["==", "!=", "<", "<=", ">", ">="];
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+// Main exports
+// Parse a filter expression such as `data.plan == "pro" && !data.trial`
+export function parseExpression(source: string): Expr {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+
+  const next = (): Token => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new ValidationError(`Unexpected end of expression: ${source}`);
+    }
+    return token;
+  };
+
+  const expect = (kind: Token["kind"], description: string): Token => {
+    const token = next();
+    if (token.kind !== kind) {
+      throw new ValidationError(`Expected ${description} at position ${token.pos}, got '${token.value}'`);
+    }
+    return token;
+  };
+
+  const matchOp = (op: string): boolean => {
+    const token = peek();
+    if (token?.kind === "op" && token.value === op) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (matchOp("||")) {
+      left = { type: "binary", op: "||", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expr => {
+    let left = parseComparison();
+    while (matchOp("&&")) {
+      left = { type: "binary", op: "&&", left, right: parseComparison() };
+    }
+    return left;
+  };
+
+  const parseComparison = (): Expr => {
+    const left = parseUnary();
+    const token = peek();
+    if (token?.kind === "op" && COMPARISON_OPERATORS.includes(token.value)) {
+      index++;
+      return { type: "binary", op: token.value as BinaryOp, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expr => {
+    if (matchOp("!")) {
+      return { type: "not", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = next();
+
+    switch (token.kind) {
+      case "string":
+        return { type: "literal", value: token.value };
+      case "number":
+        return { type: "literal", value: parseFloat(token.value) };
+      case "lparen": {
+        const expr = parseOr();
+        expect("rparen", ")");
+        return expr;
+      }
+      case "ident":
+        if (token.value in KEYWORDS) {
+          return { type: "literal", value: KEYWORDS[token.value] };
+        }
+        return parsePathFrom(token.value);
+      default:
+        throw new ValidationError(`Unexpected '${token.value}' at position ${token.pos}`);
+    }
+  };
+
+  const parsePathFrom = (first: string): Expr => {
+    const path = [first];
+
+    while (true) {
+      const token = peek();
+      if (token?.kind === "dot") {
+        index++;
+        path.push(expect("ident", "a field name").value);
+      } else if (token?.kind === "lbracket") {
+        index++;
+        const key = next();
+        if (key.kind !== "number" && key.kind !== "string") {
+          throw new ValidationError(`Expected an index or key at position ${key.pos}`);
+        }
+        path.push(key.value);
+        expect("rbracket", "]");
+      } else {
+        return { type: "path", path };
+      }
+    }
+  };
+
+  const expr = parseOr();
+  const trailing = peek();
+  if (trailing) {
+    throw new ValidationError(`Unexpected '${trailing.value}' at position ${trailing.pos}`);
+  }
+  return expr;
+}
+
+export function evaluate(expr: Expr, context: unknown): unknown {
+  switch (expr.type) {
+    case "literal":
+      return expr.value;
+    case "path":
+      return getPath(context, expr.path);
+    case "not":
+      return !isTruthy(evaluate(expr.operand, context));
+    case "binary":
+      return evaluateBinary(expr, context);
+  }
+}
+
+export function matches(expr: Expr, context: unknown): boolean {
+  return isTruthy(evaluate(expr, context));
+}
+
+// Split `data.items[0].sku` into ["data", "items", "0", "sku"]
+export function parsePath(path: string): string[] {
+  const segments = path.replace(/\[(\d+)\]/g, ".$1").split(".");
+  if (segments.some((segment) => segment === "")) {
+    throw new ValidationError(`Invalid path: ${path}`);
+  }
+  return segments;
+}
+
+export function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+// Helpers
+function evaluateBinary(expr: Extract<Expr, { type: "binary" }>, context: unknown): unknown {
+  if (expr.op === "&&") {
+    return isTruthy(evaluate(expr.left, context)) && isTruthy(evaluate(expr.right, context));
+  }
+  if (expr.op === "||") {
+    return isTruthy(evaluate(expr.left, context)) || isTruthy(evaluate(expr.right, context));
+  }
+
+  const left = evaluate(expr.left, context);
+  const right = evaluate(expr.right, context);
+
+  switch (expr.op) {
+    case "==":
+      return isEqual(left, right);
+    case "!=":
+      return !isEqual(left, right);
+    default:
+      return compare(expr.op, left, right);
+  }
+}
+
+function compare(op: BinaryOp, left: unknown, right: unknown): boolean {
+  // Ordering only makes sense between two numbers or two strings
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+  if (!comparable) return false;
+
+  const l = left as number | string;
+  const r = right as number | string;
+  switch (op) {
+    case "<":
+      return l < r;
+    case "<=":
+      return l <= r;
+    case ">":
+      return l > r;
+    case ">=":
+      return l >= r;
+    default:
+      return false;
+  }
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (typeof left === "object" && left !== null && typeof right === "object" && right !== null) {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  // Missing values compare equal to null
+  return (left ?? null) === (right ?? null);
+}
+
+function isTruthy(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== false && value !== 0 && value !== "";
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new ValidationError(`Unterminated string at position ${start}`);
+      }
+      i++;
+      tokens.push({ kind: "string", value, pos: start });
+    } else if (/[0-9]/.test(ch) || (ch === "-" && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = source.slice(i).match(/^-?\d+(\.\d+)?/)!;
+      tokens.push({ kind: "number", value: match[0], pos: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+      tokens.push({ kind: "ident", value: match[0], pos: i });
+      i += match[0].length;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "lparen" : "rparen", value: ch, pos: i++ });
+    } else if (ch === "[" || ch === "]") {
+      tokens.push({ kind: ch === "[" ? "lbracket" : "rbracket", value: ch, pos: i++ });
+    } else if (ch === ".") {
+      tokens.push({ kind: "dot", value: ch, pos: i++ });
+    } else {
+      const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+      if (!op) {
+        throw new ValidationError(`Unexpected character '${ch}' at position ${i}`);
+      }
+      tokens.push({ kind: "op", value: op, pos: i });
+      i += op.length;
+    }
+  }
+
+  return tokens;
+}
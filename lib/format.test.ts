@@ -0,0 +1,125 @@
+import { describe, test, expect } from "bun:test";
+import { formatOutput, toRecordSet, toYaml } from "./format";
+
+const eventList = {
+  events: [
+    { id: "evt-1", name: "user.signup", receivedAt: "2024-01-01T10:00:00Z", data: { userId: "u1" } },
+    { id: "evt-2", name: "order.created", receivedAt: "2024-01-01T10:00:01Z", data: { note: 'a, "b"' } },
+  ],
+  meta: { fetchedAt: "2024-01-01T10:00:02Z", total: 2 },
+};
+
+const jobs = [
+  { jobId: "job-1", stepId: "step-init", status: "Completed", startedAt: "2024-01-01T10:00:00Z" },
+];
+
+describe("format", () => {
+  describe("toRecordSet", () => {
+    test("uses stable columns for known result types", () => {
+      expect(toRecordSet(eventList).columns).toEqual(["id", "name", "receivedAt", "data", "user"]);
+      expect(toRecordSet(jobs).columns[0]).toBe("jobId");
+      expect(toRecordSet([{ runId: "r", functionId: "f", status: "Running" }]).columns).toContain(
+        "functionVersion"
+      );
+      expect(toRecordSet({ runId: "r", functionId: "f", status: "Running" }).columns).toContain(
+        "eventId"
+      );
+    });
+
+    test("flattens event stats to one row per name, group and bucket", () => {
+      const stats = {
+        since: "2024-01-01T10:00:00.000Z",
+        until: "2024-01-01T12:00:00.000Z",
+        bucketMs: 3600000,
+        buckets: ["2024-01-01T10:00:00.000Z", "2024-01-01T11:00:00.000Z"],
+        groupBy: "data.plan",
+        total: 3,
+        truncated: false,
+        names: [
+          {
+            name: "user.signup",
+            total: 3,
+            counts: [1, 2],
+            groups: [
+              { value: "pro", total: 2, counts: [1, 1] },
+              { value: "free", total: 1, counts: [0, 1] },
+            ],
+          },
+        ],
+      };
+
+      expect(formatOutput(stats, "csv").split("\n")).toEqual([
+        "name,group,bucket,count",
+        "user.signup,pro,2024-01-01T10:00:00.000Z,1",
+        "user.signup,pro,2024-01-01T11:00:00.000Z,1",
+        "user.signup,free,2024-01-01T10:00:00.000Z,0",
+        "user.signup,free,2024-01-01T11:00:00.000Z,1",
+      ]);
+    });
+
+    test("falls back to the union of keys", () => {
+      expect(toRecordSet([{ a: 1 }, { b: 2, a: 3 }]).columns).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("formatOutput", () => {
+    test("renders CSV with quoting", () => {
+      const csv = formatOutput(eventList, "csv", { columns: ["id", "data"] });
+
+      expect(csv.split("\n")).toEqual([
+        "id,data",
+        'evt-1,"{""userId"":""u1""}"',
+        'evt-2,"{""note"":""a, \\""b\\""""}"',
+      ]);
+    });
+
+    test("renders TSV with empty cells for missing values", () => {
+      const tsv = formatOutput(jobs, "tsv");
+
+      expect(tsv.split("\n")[0]).toBe("jobId\tstepId\tstatus\tstartedAt\tendedAt\terror\toutput");
+      expect(tsv.split("\n")[1]).toBe("job-1\tstep-init\tCompleted\t2024-01-01T10:00:00Z\t\t\t");
+    });
+
+    test("renders NDJSON with one record per line", () => {
+      const lines = formatOutput(eventList, "ndjson").split("\n");
+
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).data).toEqual({ note: 'a, "b"' });
+    });
+
+    test("renders an aligned table", () => {
+      const table = formatOutput(eventList, "table", { columns: ["id", "name"] });
+
+      expect(table.split("\n")).toEqual([
+        "id     name",
+        "-----  -------------",
+        "evt-1  user.signup",
+        "evt-2  order.created",
+      ]);
+    });
+
+    test("projects columns in JSON", () => {
+      const json = JSON.parse(formatOutput(eventList, "json", { columns: ["name"] }));
+
+      expect(json).toEqual([{ name: "user.signup" }, { name: "order.created" }]);
+    });
+  });
+
+  describe("toYaml", () => {
+    test("renders nested objects and arrays", () => {
+      expect(toYaml({ ids: ["a", "b"], meta: { total: 2, ok: true }, empty: [] })).toBe(
+        ["ids:", "  - a", "  - b", "meta:", "  total: 2", "  ok: true", "empty: []"].join("\n")
+      );
+    });
+
+    test("renders arrays of objects", () => {
+      expect(toYaml([{ id: "x", n: 1 }])).toBe("- id: x\n  n: 1");
+    });
+
+    test("quotes ambiguous strings", () => {
+      expect(toYaml({ a: "true", b: "123", c: "key: value", d: "" })).toBe(
+        'a: "true"\nb: "123"\nc: "key: value"\nd: ""'
+      );
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import type { EventStats } from "./stats";
+
+// Types
+export type OutputFormat = "json" | "ndjson" | "csv" | "tsv" | "table" | "yaml";
+
+export interface FormatOptions {
+  columns?: string[];
+}
+
+interface RecordSet {
+  records: Record<string, unknown>[];
+  columns: string[];
+}
+
+// Constants
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "ndjson", "csv", "tsv", "table", "yaml"];
+
+const EVENT_COLUMNS = ["id", "name", "receivedAt", "data", "user"];
+const RUN_COLUMNS = ["runId", "status", "functionId", "functionVersion", "startedAt", "endedAt", "output"];
+const JOB_COLUMNS = ["jobId", "stepId", "status", "startedAt", "endedAt", "error", "output"];
+const RUN_STATUS_COLUMNS = [
+  "runId",
+  "status",
+  "functionId",
+  "functionVersion",
+  "eventId",
+  "startedAt",
+  "endedAt",
+  "output",
+];
+const TIMELINE_COLUMNS = ["stepId", "attempt", "status", "offsetMs", "durationMs", "retried", "error"];
+const EVENT_STATS_COLUMNS = ["name", "bucket", "count"];
+const GROUPED_EVENT_STATS_COLUMNS = ["name", "group", "bucket", "count"];
+const RUN_STATS_COLUMNS = [
+  "functionId",
+  "total",
+  "statuses",
+  "failureRate",
+  "p50Ms",
+  "p95Ms",
+  "maxMs",
+  "topErrors",
+];
+const CANCELLATION_COLUMNS = ["id", "appId", "functionId", "startedAfter", "startedBefore", "if", "createdAt"];
+const MAX_TABLE_CELL = 60;
+
+// Main exports
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+export function formatOutput(
+  result: unknown,
+  format: OutputFormat,
+  options: FormatOptions = {}
+): string {
+  if (format === "json" && !options.columns) {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const { records, columns } = selectColumns(toRecordSet(result), options.columns);
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(records, null, 2);
+    case "ndjson":
+      return records.map((record) => JSON.stringify(record)).join("\n");
+    case "csv":
+      return renderDelimited(records, columns, ",", escapeCsv);
+    case "tsv":
+      return renderDelimited(records, columns, "\t", escapeTsv);
+    case "table":
+      return renderTable(records, columns);
+    case "yaml":
+      return toYaml(options.columns ? records : result);
+  }
+}
+
+// Known result types get fixed columns (event stats one row per name, group
+// and bucket); anything else uses its top-level keys in first-seen order
+export function toRecordSet(result: unknown): RecordSet {
+  if (isObject(result) && Array.isArray(result.events) && "meta" in result) {
+    return { records: result.events as Record<string, unknown>[], columns: EVENT_COLUMNS };
+  }
+  if (isObject(result) && Array.isArray(result.spans) && "wallTimeMs" in result) {
+    return { records: result.spans as Record<string, unknown>[], columns: TIMELINE_COLUMNS };
+  }
+  if (isObject(result) && Array.isArray(result.names) && "bucketMs" in result) {
+    return toEventStatsRecords(result as unknown as EventStats);
+  }
+  if (isObject(result) && Array.isArray(result.functions) && "scannedEvents" in result) {
+    return { records: result.functions as Record<string, unknown>[], columns: RUN_STATS_COLUMNS };
+  }
+  if (isObject(result) && Array.isArray(result.cancellations)) {
+    return {
+      records: result.cancellations as Record<string, unknown>[],
+      columns: CANCELLATION_COLUMNS,
+    };
+  }
+
+  const records = (Array.isArray(result) ? result : [result]).filter(isObject);
+  const first = records[0];
+
+  if (first) {
+    if ("jobId" in first && "stepId" in first) {
+      return { records, columns: JOB_COLUMNS };
+    }
+    if ("runId" in first && "functionId" in first) {
+      return { records, columns: Array.isArray(result) ? RUN_COLUMNS : RUN_STATUS_COLUMNS };
+    }
+    if ("id" in first && "name" in first && "receivedAt" in first) {
+      return { records, columns: EVENT_COLUMNS };
+    }
+  }
+
+  const columns: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return { records, columns };
+}
+
+export function toYaml(value: unknown, indent = 0): string {
+  const pad = "  ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]`;
+    return value
+      .map((item) => {
+        if (isObject(item) && Object.keys(item).length > 0) {
+          // First key shares the line with the dash
+          return `${pad}- ${toYaml(item, indent + 1).trimStart()}`;
+        }
+        if (Array.isArray(item) && item.length > 0) {
+          return `${pad}-\n${toYaml(item, indent + 1)}`;
+        }
+        return `${pad}- ${formatYamlScalar(item)}`;
+      })
+      .join("\n");
+  }
+
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return `${pad}{}`;
+    return entries
+      .map(([key, v]) => {
+        const k = formatYamlKey(key);
+        if ((isObject(v) && Object.keys(v).length > 0) || (Array.isArray(v) && v.length > 0)) {
+          return `${pad}${k}:\n${toYaml(v, indent + 1)}`;
+        }
+        if (isObject(v)) return `${pad}${k}: {}`;
+        if (Array.isArray(v)) return `${pad}${k}: []`;
+        return `${pad}${k}: ${formatYamlScalar(v)}`;
+      })
+      .join("\n");
+  }
+
+  return `${pad}${formatYamlScalar(value)}`;
+}
+
+// Helpers
+// Long format suits dashboards and spreadsheets: one row per name, group and bucket
+function toEventStatsRecords(stats: EventStats): RecordSet {
+  const records: Record<string, unknown>[] = [];
+  for (const entry of stats.names) {
+    const series = entry.groups
+      ? entry.groups.map((group) => ({ group: group.value, counts: group.counts }))
+      : [{ group: undefined, counts: entry.counts }];
+    for (const { group, counts } of series) {
+      counts.forEach((count, i) => {
+        records.push({ name: entry.name, ...(group === undefined ? {} : { group }), bucket: stats.buckets[i], count });
+      });
+    }
+  }
+  return { records, columns: stats.groupBy ? GROUPED_EVENT_STATS_COLUMNS : EVENT_STATS_COLUMNS };
+}
+
+function selectColumns(set: RecordSet, columns?: string[]): RecordSet {
+  if (!columns) return set;
+
+  const records = set.records.map((record) => {
+    const picked: Record<string, unknown> = {};
+    for (const column of columns) {
+      picked[column] = record[column];
+    }
+    return picked;
+  });
+  return { records, columns };
+}
+
+function renderDelimited(
+  records: Record<string, unknown>[],
+  columns: string[],
+  delimiter: string,
+  escape: (value: string) => string
+): string {
+  const lines = [columns.map(escape).join(delimiter)];
+  for (const record of records) {
+    lines.push(columns.map((column) => escape(toCell(record[column]))).join(delimiter));
+  }
+  return lines.join("\n");
+}
+
+function renderTable(records: Record<string, unknown>[], columns: string[]): string {
+  const rows = records.map((record) =>
+    columns.map((column) => truncateCell(toCell(record[column]).replace(/\s+/g, " ")))
+  );
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...rows.map((row) => row[i].length))
+  );
+
+  const formatRow = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [
+    formatRow(columns),
+    formatRow(widths.map((w) => "-".repeat(w))),
+    ...rows.map(formatRow),
+  ].join("\n");
+}
+
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeCsv(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+function escapeTsv(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\t/g, "\\t").replace(/\n/g, "\\n").replace(/\r/g, "\\r");
+}
+
+function truncateCell(value: string): string {
+  if (value.length <= MAX_TABLE_CELL) return value;
+  return value.slice(0, MAX_TABLE_CELL - 3) + "...";
+}
+
+function formatYamlKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatYamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+
+  const str = String(value);
+  // Quote anything YAML would read as another type or as syntax
+  const needsQuotes =
+    str === "" ||
+    /^[\s-?:,[\]{}#&*!|>'"%@`]/.test(str) ||
+    /[:#]\s|\s$|\n/.test(str) ||
+    /^(true|false|yes|no|on|off|null|~)$/i.test(str) ||
+    !isNaN(Number(str));
+  return needsQuotes ? JSON.stringify(str) : str;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
-import { printOutput, printError } from "./output";
+import { printOutput, printError, createEventTailPrinter } from "./output";
+import { ApiError } from "./errors";
 
 describe("output", () => {
   let consoleLogSpy: ReturnType<typeof spyOn>;
@@ -32,6 +33,23 @@ describe("output", () => {
       expect(JSON.parse(logs[0])).toEqual(data);
     });
 
+    test("explicit format wins over pretty", () => {
+      const data = [{ runId: "run-1", status: "Completed", functionId: "fn" }];
+      printOutput(data, { pretty: true, format: "csv", columns: ["runId", "status"] });
+
+      expect(logs).toEqual(["runId,status\nrun-1,Completed"]);
+    });
+
+    test("prints the branch environment badge in pretty mode", () => {
+      const data = { id: "evt-1", name: "test.event", receivedAt: "2024-01-01T10:00:00Z", data: {} };
+      printOutput(data, { pretty: true, environment: "feature-x" });
+      expect(logs[0]).toContain("env: feature-x");
+
+      logs = [];
+      printOutput(data, { environment: "feature-x" });
+      expect(JSON.parse(logs[0])).toEqual(data);
+    });
+
     test("prints pretty event list", () => {
       const data = {
         events: [
@@ -87,12 +105,151 @@ describe("output", () => {
     });
 
     test("prints cancel result", () => {
-      const data = { cancelled: 5 };
+      const data = {
+        cancelled: 5,
+        id: "cxl-1",
+        appId: "my-app",
+        functionId: "my-func",
+        startedAfter: "2024-01-01T00:00:00.000Z",
+        startedBefore: "2024-01-02T00:00:00.000Z",
+      };
       printOutput(data, { pretty: true });
 
       const output = logs.join("\n");
       expect(output).toContain("Cancellation complete");
       expect(output).toContain("5");
+      expect(output).toContain("cxl-1");
+      expect(output).toContain("2024-01-01T00:00:00.000Z → 2024-01-02T00:00:00.000Z");
+    });
+
+    test("prints a run timeline", () => {
+      printOutput(
+        {
+          run: { runId: "run-1", status: "Failed", functionId: "test-func" },
+          spans: [
+            {
+              jobId: "j1",
+              stepId: "charge",
+              status: "Failed",
+              offsetMs: 0,
+              durationMs: 1000,
+              attempt: 1,
+              retried: true,
+              running: false,
+              error: "card declined",
+            },
+            {
+              jobId: "j2",
+              stepId: "charge",
+              status: "Failed",
+              offsetMs: 3000,
+              durationMs: 1000,
+              attempt: 2,
+              retried: true,
+              running: false,
+            },
+          ],
+          wallTimeMs: 4000,
+          activeTimeMs: 2000,
+        },
+        { pretty: true }
+      );
+
+      const output = logs.join("\n");
+      expect(output).toContain("Timeline");
+      expect(output).toContain("charge #2");
+      expect(output).toContain("card declined");
+      expect(output).toContain("(50%)");
+    });
+
+    test("prints an event trace tree", () => {
+      printOutput(
+        {
+          event: { id: "evt-1", name: "user.signup", receivedAt: "2024-01-01T10:00:00Z", data: {} },
+          runs: [
+            {
+              runId: "run-1",
+              status: "Failed",
+              functionId: "signup",
+              jobs: [{ jobId: "job-1", stepId: "charge", status: "Failed", error: "card declined" }],
+              sentEvents: [],
+            },
+          ],
+        },
+        { pretty: true }
+      );
+
+      const output = logs.join("\n");
+      expect(output).toContain("user.signup");
+      expect(output).toContain("└─");
+      expect(output).toContain("signup");
+      expect(output).toContain("charge");
+      expect(output).toContain("card declined");
+    });
+
+    test("prints event stats as sparklines", () => {
+      printOutput(
+        {
+          since: "2024-01-01T10:00:00.000Z",
+          until: "2024-01-01T13:00:00.000Z",
+          bucketMs: 3600000,
+          buckets: ["2024-01-01T10:00:00.000Z", "2024-01-01T11:00:00.000Z", "2024-01-01T12:00:00.000Z"],
+          total: 9,
+          truncated: false,
+          names: [
+            { name: "user.signup", total: 8, counts: [8, 0, 0] },
+            { name: "order.created", total: 1, counts: [0, 0, 1] },
+          ],
+        },
+        { pretty: true }
+      );
+
+      const output = logs.join("\n");
+      expect(output).toContain("Event stats (9)");
+      expect(output).toContain("1h buckets");
+      expect(output).toContain("2024-01-01 10:00 → 2024-01-01 13:00 UTC");
+      expect(output).toContain("█  ");
+      expect(output).toContain("peak 8");
+      expect(output).toContain("total");
+    });
+
+    test("prints a cancellation list", () => {
+      printOutput(
+        {
+          cancellations: [
+            { id: "cxl-1", functionId: "my-func", startedAfter: "2024-01-01T00:00:00Z", if: "event.data.x == 1" },
+          ],
+        },
+        { pretty: true }
+      );
+
+      const output = logs.join("\n");
+      expect(output).toContain("Cancellations (1)");
+      expect(output).toContain("cxl-1");
+      expect(output).toContain("if event.data.x == 1");
+    });
+  });
+
+  describe("createEventTailPrinter", () => {
+    const pro = { id: "evt-1", name: "user.signup", receivedAt: "2024-01-01T10:00:00Z", data: { plan: "pro" } };
+    const free = { id: "evt-2", name: "user.signup", receivedAt: "2024-01-01T10:00:01Z", data: { plan: "free" } };
+    const run = { runId: "run-1", functionId: "welcome", status: "Running" };
+
+    test("applies --where and --fields to each event and its runs", () => {
+      const printer = createEventTailPrinter({ where: 'data.plan == "pro"', fields: ["id"] });
+      printer.onEvent(pro);
+      printer.onEvent(free);
+      printer.onRun("evt-1", run);
+      printer.onRun("evt-2", run);
+
+      expect(logs.map((line) => JSON.parse(line))).toEqual([{ id: "evt-1" }, { eventId: "evt-1", ...run }]);
+    });
+
+    test("an explicit format wins over pretty", () => {
+      const printer = createEventTailPrinter({ pretty: true, format: "ndjson" });
+      printer.onEvent(pro);
+
+      expect(JSON.parse(logs[0])).toEqual(pro);
     });
   });
 
@@ -101,7 +258,23 @@ describe("output", () => {
       printError("Something went wrong");
 
       expect(errors).toHaveLength(1);
-      expect(JSON.parse(errors[0])).toEqual({ error: "Something went wrong" });
+      expect(JSON.parse(errors[0])).toEqual({
+        error: "Something went wrong",
+        code: "error",
+        status: null,
+        hint: null,
+      });
+    });
+
+    test("includes code, status and hint for typed errors", () => {
+      printError(new ApiError("API request failed (429): slow down", { status: 429, path: "/v1/events" }));
+
+      expect(JSON.parse(errors[0])).toEqual({
+        error: "API request failed (429): slow down",
+        code: "rate_limited",
+        status: 429,
+        hint: "Rate limited; wait and retry, or raise --retries",
+      });
     });
 
     test("prints pretty error", () => {
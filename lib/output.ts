@@ -1,6 +1,35 @@
-import type { EventResult, EventDetails, EventRun, EventListResult } from "./events";
-import type { RunJob, RunStatus } from "./runs";
-import type { CancelResult } from "./cancel";
+import type {
+  EventResult,
+  EventDetails,
+  EventRun,
+  EventListResult,
+  EventWaitResult,
+  BatchSendResult,
+} from "./events";
+import type {
+  RunJob,
+  RunStatus,
+  RunWatchUpdate,
+  RunWatchResult,
+  RunTimeline,
+  TimelineSpan,
+} from "./runs";
+import type {
+  CancelResult,
+  CancelPreview,
+  RunCancelResult,
+  Cancellation,
+  CancellationListResult,
+  CancellationDeleteResult,
+  IfTestResult,
+} from "./cancel";
+import type { ReplayResult } from "./replay";
+import type { TraceNode } from "./trace";
+import type { EventStats, RunStats } from "./stats";
+import type { ProfileListResult, ProfileDetails } from "./config";
+import { formatOutput, type OutputFormat } from "./format";
+import { applyQuery, type QueryOptions } from "./query";
+import { describeError } from "./errors";
 
 // Types
 type OutputResult =
@@ -10,7 +39,44 @@ type OutputResult =
   | RunJob[]
   | RunStatus
   | CancelResult
-  | EventListResult;
+  | CancelPreview
+  | RunCancelResult
+  | Cancellation
+  | CancellationListResult
+  | CancellationDeleteResult
+  | IfTestResult
+  | EventListResult
+  | EventWaitResult
+  | BatchSendResult
+  | ReplayResult
+  | RunWatchResult
+  | RunTimeline
+  | TraceNode
+  | EventStats
+  | RunStats
+  | ProfileListResult
+  | ProfileDetails;
+
+export interface EventTailPrinter {
+  onEvent: (event: EventDetails) => void;
+  onRun: (eventId: string, run: EventRun) => void;
+  onError: (err: unknown) => void;
+}
+
+export interface OutputOptions extends QueryOptions {
+  pretty?: boolean;
+  // Active branch environment, shown above pretty output
+  environment?: string;
+  output?: string;
+  format?: OutputFormat;
+  columns?: string[];
+}
+
+// Constants
+const DEFAULT_TERMINAL_WIDTH = 100;
+const MAX_TIMELINE_LABEL = 28;
+const MAX_STATS_LABEL = 28;
+const SPARK_CHARS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
 
 // ANSI color codes
 const c = {
@@ -35,34 +101,92 @@ const c = {
 } as const;
 
 // Main exports
-export function printOutput(
-  result: OutputResult,
-  options: { pretty?: boolean; output?: string }
-): void {
-  const json = JSON.stringify(result, null, 2);
+// An explicit --format wins over --pretty
+export function printOutput(result: OutputResult, options: OutputOptions): void {
+  const queried = applyQuery(result, options);
+  // Projected fields no longer match the pretty renderers' shapes
+  const pretty = options.pretty && !options.format && !options.fields && queried !== null;
+  const format = options.format ?? "json";
+  const tabular = format === "csv" || format === "tsv" || format === "table";
+  const content = formatOutput(queried, format, {
+    columns: options.columns ?? (tabular ? options.fields : undefined),
+  });
 
   if (options.output) {
-    writeToFile(options.output, json);
+    writeToFile(options.output, content);
     console.log(`Output written to ${options.output}`);
     return;
   }
 
-  if (options.pretty) {
-    printPretty(result);
+  if (pretty) {
+    if (options.environment) {
+      console.log(`${c.bgMagenta}${c.black}${c.bold} env: ${options.environment} ${c.reset}`);
+    }
+    printPretty(queried as OutputResult);
     return;
   }
 
-  console.log(json);
+  // Empty NDJSON/CSV bodies print nothing rather than a blank line
+  if (content) {
+    console.log(content);
+  }
 }
 
-export function printError(message: string, pretty?: boolean): void {
+export function printError(error: unknown, pretty?: boolean): void {
+  const details = describeError(error);
   if (pretty) {
-    console.error(`${c.red}${c.bold}Error:${c.reset} ${message}`);
+    console.error(`${c.red}${c.bold}Error:${c.reset} ${details.error}`);
+    if (details.hint) {
+      console.error(`${c.dim}Hint: ${details.hint}${c.reset}`);
+    }
   } else {
-    console.error(JSON.stringify({ error: message }));
+    console.error(JSON.stringify(details));
   }
 }
 
+// On a TTY each update replaces the previous one in place
+export function createRunWatchPrinter(): (update: RunWatchUpdate) => void {
+  let previousLines = 0;
+
+  return (update) => {
+    const lines = formatRunWatch(update);
+    if (previousLines > 0 && process.stdout.isTTY) {
+      process.stdout.write(`\x1b[${previousLines}A\x1b[J`);
+    }
+    for (const line of lines) {
+      console.log(line);
+    }
+    previousLines = lines.length;
+  };
+}
+
+// Callbacks that stream `events tail` output as styled lines or NDJSON, with
+// --where and --fields applied to each event; runs follow their event's filter
+export function createEventTailPrinter(options: OutputOptions): EventTailPrinter {
+  const pretty = options.pretty && !options.format && !options.fields;
+  const shown = new Set<string>();
+  return {
+    onEvent: (event) => {
+      const queried = applyQuery(event, options);
+      if (queried === null) return;
+      shown.add(event.id);
+      console.log(pretty ? formatEventLine(event) : JSON.stringify(queried));
+    },
+    onRun: (eventId, run) => {
+      if (!shown.has(eventId)) return;
+      console.log(pretty ? formatTailRunLine(eventId, run) : JSON.stringify({ eventId, ...run }));
+    },
+    onError: (err) => {
+      const details = describeError(err);
+      if (pretty) {
+        console.error(`${c.yellow}⚠${c.reset} ${c.dim}${details.error} (retrying)${c.reset}`);
+      } else {
+        console.error(JSON.stringify({ ...details, retrying: true }));
+      }
+    },
+  };
+}
+
 export function printSuccess(message: string): void {
   console.log(`${c.green}✓${c.reset} ${message}`);
 }
@@ -79,6 +203,22 @@ function writeToFile(path: string, content: string): void {
 function printPretty(result: OutputResult): void {
   if (isEventResult(result)) {
     printEventResult(result);
+  } else if (isTraceNode(result)) {
+    printTrace(result);
+  } else if (isEventStats(result)) {
+    printEventStats(result);
+  } else if (isRunStats(result)) {
+    printRunStats(result);
+  } else if (isRunTimeline(result)) {
+    printRunTimeline(result);
+  } else if (isRunWatchResult(result)) {
+    printRunWatchResult(result);
+  } else if (isEventWaitResult(result)) {
+    printEventWaitResult(result);
+  } else if (isBatchSendResult(result)) {
+    printBatchSendResult(result);
+  } else if (isReplayResult(result)) {
+    printReplayResult(result);
   } else if (isEventListResult(result)) {
     printEventList(result);
   } else if (isEventDetails(result)) {
@@ -89,8 +229,24 @@ function printPretty(result: OutputResult): void {
     printRunStatus(result);
   } else if (isRunJobArray(result)) {
     printRunJobs(result);
+  } else if (isRunCancelResult(result)) {
+    printRunCancelResult(result);
+  } else if (isCancelPreview(result)) {
+    printCancelPreview(result);
   } else if (isCancelResult(result)) {
     printCancelResult(result);
+  } else if (isIfTestResult(result)) {
+    printIfTestResult(result);
+  } else if (isCancellationListResult(result)) {
+    printCancellationList(result);
+  } else if (isCancellationDeleteResult(result)) {
+    printSuccess(`Deleted cancellation ${result.id}`);
+  } else if (isCancellation(result)) {
+    printCancellation(result);
+  } else if (isProfileListResult(result)) {
+    printProfileList(result);
+  } else if (isProfileDetails(result)) {
+    printProfileDetails(result);
   } else {
     console.log(JSON.stringify(result, null, 2));
   }
@@ -107,6 +263,83 @@ function isEventResult(result: OutputResult): result is EventResult {
   );
 }
 
+function isTraceNode(result: OutputResult): result is TraceNode {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "event" in result &&
+    "runs" in result &&
+    Array.isArray((result as TraceNode).runs)
+  );
+}
+
+function isEventStats(result: OutputResult): result is EventStats {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "bucketMs" in result &&
+    Array.isArray((result as EventStats).names)
+  );
+}
+
+function isRunStats(result: OutputResult): result is RunStats {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "scannedEvents" in result &&
+    Array.isArray((result as RunStats).functions)
+  );
+}
+
+function isRunTimeline(result: OutputResult): result is RunTimeline {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "run" in result &&
+    "wallTimeMs" in result &&
+    Array.isArray((result as RunTimeline).spans)
+  );
+}
+
+function isRunWatchResult(result: OutputResult): result is RunWatchResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "run" in result &&
+    "jobs" in result &&
+    "timedOut" in result
+  );
+}
+
+function isEventWaitResult(result: OutputResult): result is EventWaitResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "events" in result &&
+    "timedOut" in result &&
+    Array.isArray((result as EventWaitResult).events)
+  );
+}
+
+function isBatchSendResult(result: OutputResult): result is BatchSendResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "sent" in result &&
+    "failed" in result &&
+    Array.isArray((result as BatchSendResult).results)
+  );
+}
+
+function isReplayResult(result: OutputResult): result is ReplayResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "replayed" in result &&
+    Array.isArray((result as ReplayResult).replayed)
+  );
+}
+
 function isEventListResult(result: OutputResult): result is EventListResult {
   return (
     typeof result === "object" &&
@@ -154,6 +387,79 @@ function isCancelResult(result: OutputResult): result is CancelResult {
   );
 }
 
+function isRunCancelResult(result: OutputResult): result is RunCancelResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "runs" in result &&
+    "alreadyFinished" in result &&
+    Array.isArray((result as RunCancelResult).runs)
+  );
+}
+
+function isCancelPreview(result: OutputResult): result is CancelPreview {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "dryRun" in result &&
+    "request" in result &&
+    Array.isArray((result as CancelPreview).matchingRuns)
+  );
+}
+
+function isIfTestResult(result: OutputResult): result is IfTestResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "eventId" in result &&
+    "matches" in result &&
+    typeof (result as IfTestResult).matches === "boolean"
+  );
+}
+
+function isCancellationListResult(result: OutputResult): result is CancellationListResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "cancellations" in result &&
+    Array.isArray((result as CancellationListResult).cancellations)
+  );
+}
+
+function isCancellationDeleteResult(result: OutputResult): result is CancellationDeleteResult {
+  return typeof result === "object" && result !== null && "id" in result && "deleted" in result;
+}
+
+function isCancellation(result: OutputResult): result is Cancellation {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "id" in result &&
+    "startedAfter" in result &&
+    !Array.isArray(result)
+  );
+}
+
+function isProfileListResult(result: OutputResult): result is ProfileListResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "profiles" in result &&
+    "configPath" in result &&
+    Array.isArray((result as ProfileListResult).profiles)
+  );
+}
+
+function isProfileDetails(result: OutputResult): result is ProfileDetails {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "name" in result &&
+    "active" in result &&
+    !Array.isArray(result)
+  );
+}
+
 function isRunStatus(result: OutputResult): result is RunStatus {
   return (
     typeof result === "object" &&
@@ -177,7 +483,9 @@ function printEventResult(result: EventResult): void {
 
 function printEventList(result: EventListResult): void {
   const total = result.meta.total ?? result.events.length;
-  console.log(`${c.bold}Events (${total})${c.reset} ${c.dim}fetched ${formatRelativeTime(result.meta.fetchedAt)}${c.reset}`);
+  const pages = result.meta.pages ?? 1;
+  const pageInfo = `${pages} ${pages === 1 ? "page" : "pages"}`;
+  console.log(`${c.bold}Events (${total})${c.reset} ${c.dim}fetched ${formatRelativeTime(result.meta.fetchedAt)}, ${pageInfo}${c.reset}`);
   console.log();
 
   if (result.events.length === 0) {
@@ -188,6 +496,72 @@ function printEventList(result: EventListResult): void {
   for (const event of result.events) {
     console.log(formatEventLine(event));
   }
+
+  if (result.meta.nextCursor) {
+    console.log();
+    console.log(`${c.dim}More events available: --cursor ${result.meta.nextCursor}${c.reset}`);
+  }
+}
+
+function printBatchSendResult(result: BatchSendResult): void {
+  const symbol = result.failed > 0 ? `${c.yellow}!${c.reset}` : `${c.green}✓${c.reset}`;
+  const batches = `${result.batches} ${result.batches === 1 ? "batch" : "batches"}`;
+  console.log(`${symbol} Sent ${result.sent} events in ${batches}`);
+
+  if (result.failed === 0) return;
+
+  console.log(`  ${c.red}Failed: ${result.failed}${c.reset}`);
+  console.log();
+  for (const item of result.results) {
+    if (item.error === undefined) continue;
+    const name = item.name ? ` ${formatEventName(item.name)}` : "";
+    console.log(`${c.dim}line ${item.line}${c.reset}${name} ${c.red}${item.error}${c.reset}`);
+  }
+}
+
+function printReplayResult(result: ReplayResult): void {
+  const replayed = result.replayed.length - result.failed;
+  const symbol = result.failed > 0 ? `${c.yellow}!${c.reset}` : `${c.green}✓${c.reset}`;
+  console.log(`${symbol} Replayed ${replayed} of ${result.replayed.length} events`);
+  console.log();
+
+  for (const item of result.replayed) {
+    const source = `${c.dim}${item.sourceId.slice(0, 12)}${c.reset}`;
+    const name = item.name ? `${formatEventName(item.name)} ` : "";
+    if (item.error !== undefined) {
+      console.log(`${source} ${name}${c.red}${item.error}${c.reset}`);
+    } else {
+      console.log(`${source} ${name}→ ${c.cyan}${item.id}${c.reset}`);
+    }
+  }
+}
+
+function printEventWaitResult(result: EventWaitResult): void {
+  for (const event of result.events) {
+    console.log(`${c.bold}Event${c.reset} ${c.cyan}${event.eventId}${c.reset}`);
+
+    if (event.runs.length === 0) {
+      console.log(`  ${c.yellow}No runs triggered${c.reset}`);
+    }
+
+    for (const run of event.runs) {
+      const status = formatRunStatus(run.status);
+      const funcId = `${c.magenta}${truncate(run.functionId, 40)}${c.reset}`;
+      const duration = calculateDuration(run.startedAt, run.endedAt);
+      console.log(`  ${status} ${funcId} ${c.dim}${run.runId.slice(0, 12)}${c.reset} ${duration}`);
+
+      if (run.output !== undefined && run.output !== null) {
+        console.log(`    ${c.dim}Output: ${JSON.stringify(run.output)}${c.reset}`);
+      }
+    }
+    console.log();
+  }
+
+  if (result.timedOut) {
+    console.log(`${c.yellow}⏱${c.reset} Timed out waiting for runs to finish`);
+  } else if (result.interrupted) {
+    console.log(`${c.yellow}■${c.reset} Interrupted before runs finished`);
+  }
 }
 
 function printEventDetails(event: EventDetails): void {
@@ -240,12 +614,7 @@ function printRunJobs(jobs: RunJob[]): void {
   console.log();
 
   for (const job of jobs) {
-    const status = formatRunStatus(job.status);
-    const duration = job.startedAt && job.endedAt ? formatDuration(job.startedAt, job.endedAt) : "";
-    const ts = job.startedAt ? formatTimestamp(job.startedAt) : "";
-    const step = `${c.magenta}${truncate(job.stepId, 30)}${c.reset}`;
-
-    console.log(`${ts} ${status} ${step} ${c.dim}${job.jobId.slice(0, 12)}${c.reset} ${duration}`);
+    console.log(formatJobLine(job));
 
     if (job.error) {
       console.log(`  ${c.red}Error: ${job.error}${c.reset}`);
@@ -259,6 +628,344 @@ function printRunJobs(jobs: RunJob[]): void {
 function printCancelResult(result: CancelResult): void {
   console.log(`${c.green}✓${c.reset} Cancellation complete`);
   console.log(`  ${c.dim}Runs cancelled:${c.reset} ${result.cancelled}`);
+  if (result.id) {
+    console.log(`  ${c.dim}Cancellation:${c.reset}   ${c.cyan}${result.id}${c.reset}`);
+  }
+  if (result.startedAfter && result.startedBefore) {
+    console.log(`  ${c.dim}Window:${c.reset}         ${result.startedAfter} → ${result.startedBefore}`);
+  }
+  if (result.if) {
+    console.log(`  ${c.dim}If:${c.reset}             ${result.if}`);
+  }
+  if (result.ifWarning) {
+    console.log(`  ${c.yellow}⚠${c.reset} ${c.dim}${result.ifWarning}${c.reset}`);
+  }
+  if (result.id) {
+    console.log();
+    console.log(`${c.dim}It keeps matching new runs until removed with: inngest-ctl cancel delete ${result.id}${c.reset}`);
+  }
+}
+
+function printIfTestResult(result: IfTestResult): void {
+  const verdict = result.matches ? `${c.green}${c.bold}true${c.reset}` : `${c.red}${c.bold}false${c.reset}`;
+  console.log(verdict);
+  console.log(`${c.dim}${result.if}${c.reset}`);
+  console.log(`${c.dim}against event ${result.eventId}${c.reset}`);
+}
+
+function printCancellationList(result: CancellationListResult): void {
+  if (result.cancellations.length === 0) {
+    console.log(`${c.yellow}No cancellations found${c.reset}`);
+    return;
+  }
+
+  console.log(`${c.bold}Cancellations (${result.cancellations.length})${c.reset}`);
+  console.log();
+
+  for (const cancellation of result.cancellations) {
+    const fn = `${c.magenta}${truncate(cancellation.functionId ?? "", 40)}${c.reset}`;
+    const window = `${c.dim}${cancellation.startedAfter ?? "?"} → ${cancellation.startedBefore ?? "?"}${c.reset}`;
+    console.log(`${c.cyan}${cancellation.id}${c.reset} ${fn} ${window}`);
+    if (cancellation.if) {
+      console.log(`  ${c.dim}if ${cancellation.if}${c.reset}`);
+    }
+  }
+}
+
+function printCancellation(cancellation: Cancellation): void {
+  const fields: Array<[string, string | undefined]> = [
+    ["App", cancellation.appId],
+    ["Function", cancellation.functionId],
+    ["After", cancellation.startedAfter],
+    ["Before", cancellation.startedBefore],
+    ["If", cancellation.if],
+    ["Created", cancellation.createdAt],
+  ];
+
+  console.log(`${c.bold}Cancellation${c.reset} ${c.cyan}${cancellation.id}${c.reset}`);
+  console.log();
+  for (const [label, value] of fields) {
+    if (value === undefined) continue;
+    console.log(`${c.dim}${`${label}:`.padEnd(10)}${c.reset} ${value}`);
+  }
+}
+
+function printRunCancelResult(result: RunCancelResult): void {
+  for (const run of result.runs) {
+    const id = `${c.dim}${run.runId}${c.reset}`;
+    switch (run.result) {
+      case "cancelled":
+        console.log(`${c.green}✓${c.reset} ${id} cancelled`);
+        break;
+      case "already_finished":
+        console.log(`${c.gray}-${c.reset} ${id} already finished ${formatRunStatus(run.status ?? "")}`);
+        break;
+      case "not_found":
+        console.log(`${c.yellow}?${c.reset} ${id} not found`);
+        break;
+      case "failed":
+        console.log(`${c.red}✗${c.reset} ${id} ${c.red}${run.error}${c.reset}`);
+        break;
+    }
+  }
+
+  console.log();
+  console.log(
+    `${c.bold}${result.cancelled} cancelled${c.reset}, ${result.alreadyFinished} already finished, ` +
+      `${result.notFound} not found, ${result.failed} failed`
+  );
+}
+
+function printCancelPreview(preview: CancelPreview): void {
+  const { request } = preview;
+  console.log(`${c.yellow}${c.bold}Dry run${c.reset} ${c.dim}(nothing was cancelled)${c.reset}`);
+  console.log();
+  console.log(`${c.dim}App:${c.reset}            ${request.app_id}`);
+  console.log(`${c.dim}Function:${c.reset}       ${c.magenta}${request.function_id}${c.reset}`);
+  console.log(`${c.dim}Started after:${c.reset}  ${request.started_after}`);
+  console.log(`${c.dim}Started before:${c.reset} ${request.started_before}`);
+  if (request.if) {
+    console.log(`${c.dim}If:${c.reset}             ${request.if}`);
+  }
+  if (preview.ifWarning) {
+    console.log(`${c.yellow}⚠${c.reset} ${c.dim}${preview.ifWarning}${c.reset}`);
+  }
+  console.log();
+
+  const scanned = `${c.dim}(scanned ${preview.scannedEvents} events${preview.truncated ? ", more not scanned" : ""})${c.reset}`;
+  if (preview.matchingRuns.length === 0) {
+    console.log(`${c.yellow}No running runs found${c.reset} ${scanned}`);
+    return;
+  }
+
+  console.log(`${c.bold}Running runs that match (${preview.matchingRuns.length})${c.reset} ${scanned}`);
+  for (const run of preview.matchingRuns) {
+    const ts = run.startedAt ? formatTimestamp(run.startedAt) : "";
+    console.log(`  ${ts} ${formatRunStatus(run.status)} ${c.dim}${run.runId}${c.reset}`);
+  }
+}
+
+function printProfileList(result: ProfileListResult): void {
+  console.log(`${c.bold}Profiles (${result.profiles.length})${c.reset} ${c.dim}${result.configPath}${c.reset}`);
+  console.log();
+
+  if (result.profiles.length === 0) {
+    console.log(`${c.yellow}No profiles configured${c.reset}`);
+    return;
+  }
+
+  for (const profile of result.profiles) {
+    const marker = profile.active ? `${c.green}*${c.reset}` : " ";
+    const name = profile.active ? `${c.bold}${profile.name}${c.reset}` : profile.name;
+    console.log(`${marker} ${name} ${c.dim}${profile.target}${c.reset}`);
+  }
+}
+
+function printProfileDetails(profile: ProfileDetails): void {
+  const active = profile.active ? ` ${c.green}(active)${c.reset}` : "";
+  console.log(`${c.bold}Profile${c.reset}`);
+  console.log();
+  console.log(`${c.dim}Name:${c.reset}        ${c.cyan}${profile.name}${c.reset}${active}`);
+
+  const fields: Array<[string, unknown]> = [
+    ["API URL", profile.apiUrl],
+    ["Event URL", profile.eventUrl],
+    ["Dev URL", profile.devUrl],
+    ["Dev", profile.dev],
+    ["Env", profile.env],
+    ["Signing key", profile.signingKey],
+    ["Fallback", profile.signingKeyFallback],
+    ["Event key", profile.eventKey],
+    ["Pretty", profile.pretty],
+    ["Format", profile.format],
+  ];
+
+  for (const [label, value] of fields) {
+    if (value === undefined) continue;
+    console.log(`${c.dim}${`${label}:`.padEnd(12)}${c.reset} ${value}`);
+  }
+}
+
+function printTrace(trace: TraceNode): void {
+  for (const line of formatTraceNode(trace, "")) {
+    console.log(line);
+  }
+}
+
+function printRunTimeline(timeline: RunTimeline): void {
+  const { run, spans, wallTimeMs, activeTimeMs } = timeline;
+  const labels = spans.map((span) =>
+    span.retried ? `${span.stepId} #${span.attempt}` : span.stepId
+  );
+  const labelWidth = Math.min(Math.max(4, ...labels.map((label) => label.length)), MAX_TIMELINE_LABEL);
+  // Label, bar and a duration column must fit the terminal
+  const columns = process.stdout.columns || DEFAULT_TERMINAL_WIDTH;
+  const barWidth = Math.max(columns - labelWidth - 12, 10);
+
+  console.log(
+    `${c.bold}Timeline${c.reset} ${c.dim}${run.runId}${c.reset} ${formatRunStatus(run.status)} ${c.magenta}${run.functionId}${c.reset}`
+  );
+  console.log();
+
+  if (spans.length === 0) {
+    console.log(`${c.yellow}No steps have started${c.reset}`);
+    return;
+  }
+
+  const total = formatMs(wallTimeMs);
+  console.log(`${" ".repeat(labelWidth)} ${c.dim}0${" ".repeat(Math.max(barWidth - total.length - 1, 1))}${total}${c.reset}`);
+
+  spans.forEach((span, i) => {
+    const label = truncate(labels[i], labelWidth).padEnd(labelWidth);
+    const bar = formatTimelineBar(span, wallTimeMs, barWidth);
+    const failed = span.status.toLowerCase() === "failed";
+    const marker = failed ? ` ${c.red}✗${c.reset}` : span.retried ? ` ${c.yellow}↻${c.reset}` : "";
+    console.log(`${label} ${bar} ${c.dim}${formatMs(span.durationMs)}${c.reset}${marker}`);
+    if (span.error) {
+      console.log(`${" ".repeat(labelWidth)} ${c.red}${truncate(span.error, barWidth)}${c.reset}`);
+    }
+  });
+
+  const share = wallTimeMs > 0 ? Math.round((activeTimeMs / wallTimeMs) * 100) : 100;
+  console.log();
+  console.log(
+    `${c.dim}Wall time${c.reset} ${formatMs(wallTimeMs)}  ` +
+      `${c.dim}Active${c.reset} ${formatMs(activeTimeMs)} (${share}%)  ` +
+      `${c.dim}Idle${c.reset} ${formatMs(Math.max(wallTimeMs - activeTimeMs, 0))}`
+  );
+}
+
+function printEventStats(stats: EventStats): void {
+  const rows = stats.names.flatMap((entry) => [
+    { label: entry.name, counts: entry.counts, total: entry.total, group: false },
+    ...(entry.groups ?? []).map((group) => ({
+      label: `  ${group.value}`,
+      counts: group.counts,
+      total: group.total,
+      group: true,
+    })),
+  ]);
+  const labelWidth = Math.min(Math.max(5, ...rows.map((row) => row.label.length)), MAX_STATS_LABEL);
+  const totalWidth = Math.max(5, String(stats.total).length);
+  // Label, sparkline, total and peak columns must fit the terminal
+  const columns = process.stdout.columns || DEFAULT_TERMINAL_WIDTH;
+  const sparkWidth = Math.max(Math.min(stats.buckets.length, columns - labelWidth - totalWidth - 14), 10);
+
+  const grouped = stats.groupBy ? ` by ${stats.groupBy}` : "";
+  console.log(
+    `${c.bold}Event stats (${stats.total})${c.reset} ${c.dim}${formatBucketSize(stats.bucketMs)} buckets${grouped}${c.reset}`
+  );
+  console.log(`${c.dim}${formatUtc(stats.since)} → ${formatUtc(stats.until)} UTC${c.reset}`);
+  console.log();
+
+  if (rows.length === 0) {
+    console.log(`${c.yellow}No events found${c.reset}`);
+    return;
+  }
+
+  const totals = stats.buckets.map((_, i) =>
+    stats.names.reduce((sum, entry) => sum + entry.counts[i], 0)
+  );
+  const printRow = (label: string, counts: number[], total: number, color: string) => {
+    const spark = formatSparkline(counts, sparkWidth);
+    const peak = Math.max(...counts);
+    console.log(
+      `${truncate(label, labelWidth).padEnd(labelWidth)} ${color}${spark}${c.reset} ` +
+        `${String(total).padStart(totalWidth)} ${c.dim}peak ${peak}${c.reset}`
+    );
+  };
+
+  for (const row of rows) {
+    printRow(row.label, row.counts, row.total, row.group ? c.dim : c.cyan);
+  }
+  if (stats.names.length > 1) {
+    console.log();
+    printRow("total", totals, stats.total, c.bold);
+  }
+
+  if (stats.truncated) {
+    console.log();
+    console.log(`${c.yellow}Stopped at --max; counts are a lower bound${c.reset}`);
+  }
+}
+
+function printRunStats(stats: RunStats): void {
+  const count = (fn: RunStats["functions"][number], status: string) =>
+    Object.entries(fn.statuses)
+      .filter(([key]) => key.toLowerCase() === status)
+      .reduce((sum, [, n]) => sum + n, 0);
+  const labelWidth = Math.min(
+    Math.max(8, ...stats.functions.map((fn) => fn.functionId.length)),
+    MAX_STATS_LABEL
+  );
+
+  console.log(
+    `${c.bold}Run stats (${stats.total})${c.reset} ${c.dim}from ${stats.scannedEvents} events, ${formatUtc(stats.since)} → ${formatUtc(stats.until)} UTC${c.reset}`
+  );
+  console.log();
+
+  if (stats.functions.length === 0) {
+    console.log(`${c.yellow}No runs found${c.reset}`);
+    return;
+  }
+
+  const header = ["runs", "ok", "failed", "cancel", "other", "fail%", "p50", "p95", "max"]
+    .map((title) => title.padStart(7))
+    .join("");
+  console.log(`${c.dim}${"function".padEnd(labelWidth)}${header}${c.reset}`);
+
+  for (const fn of stats.functions) {
+    const completed = count(fn, "completed");
+    const failed = count(fn, "failed");
+    const cancelled = count(fn, "cancelled");
+    const rate = `${Math.round(fn.failureRate * 100)}%`;
+    const rateColor = fn.failureRate === 0 ? c.green : fn.failureRate < 0.05 ? c.yellow : c.red;
+    const duration = (ms?: number) => (ms === undefined ? "-" : formatMs(ms)).padStart(7);
+
+    console.log(
+      `${c.cyan}${truncate(fn.functionId, labelWidth).padEnd(labelWidth)}${c.reset}` +
+        `${String(fn.total).padStart(7)}` +
+        `${String(completed).padStart(7)}` +
+        `${failed > 0 ? c.red : ""}${String(failed).padStart(7)}${c.reset}` +
+        `${String(cancelled).padStart(7)}` +
+        `${String(fn.total - completed - failed - cancelled).padStart(7)}` +
+        `${rateColor}${rate.padStart(7)}${c.reset}` +
+        `${duration(fn.p50Ms)}${duration(fn.p95Ms)}${duration(fn.maxMs)}`
+    );
+  }
+
+  const withErrors = stats.functions.filter((fn) => fn.topErrors.length > 0);
+  for (const fn of withErrors) {
+    console.log();
+    console.log(`${c.bold}Top errors${c.reset} ${c.cyan}${fn.functionId}${c.reset}`);
+    for (const error of fn.topErrors) {
+      console.log(`  ${c.red}${String(error.count).padStart(4)}×${c.reset} ${truncate(error.message, 80)}`);
+    }
+  }
+
+  if (stats.truncated) {
+    console.log();
+    console.log(`${c.yellow}Stopped at --max events; counts are a lower bound${c.reset}`);
+  }
+}
+
+function printRunWatchResult(result: RunWatchResult): void {
+  const duration = calculateDuration(result.run.startedAt, result.run.endedAt);
+  const polls = `${c.dim}(${result.polls} polls)${c.reset}`;
+
+  console.log();
+  if (result.timedOut) {
+    console.log(`${c.yellow}⏱${c.reset} Timed out waiting for run ${c.dim}status ${result.run.status}${c.reset} ${polls}`);
+    return;
+  }
+  if (result.interrupted) {
+    console.log(`${c.yellow}■${c.reset} Interrupted while watching run ${c.dim}status ${result.run.status}${c.reset} ${polls}`);
+    return;
+  }
+
+  const s = result.run.status.toLowerCase();
+  const symbol = s === "completed" ? `${c.green}✓${c.reset}` : `${c.red}✗${c.reset}`;
+  console.log(`${symbol} Run ${s} after ${duration} ${polls}`);
 }
 
 function printRunStatus(run: RunStatus): void {
@@ -296,6 +1003,137 @@ function printRunStatus(run: RunStatus): void {
 }
 
 // Format helpers
+// Tree lines for an event, its runs, their steps and any followed events
+function formatTraceNode(node: TraceNode, indent: string): string[] {
+  const { event } = node;
+  const lines = [
+    `${c.blue}●${c.reset} ${formatEventName(event.name)} ${c.dim}${event.id} ${formatTimestamp(event.receivedAt)}${c.reset}`,
+  ];
+
+  if (node.runs.length === 0) {
+    lines.push(`${indent}└─ ${c.dim}no runs${c.reset}`);
+    return lines;
+  }
+
+  node.runs.forEach((run, i) => {
+    const lastRun = i === node.runs.length - 1;
+    const runPrefix = indent + (lastRun ? "   " : "│  ");
+    lines.push(
+      `${indent}${lastRun ? "└─" : "├─"} ${formatRunStatus(run.status)} ${c.magenta}${run.functionId}${c.reset} ` +
+        `${c.dim}${run.runId}${c.reset} ${calculateDuration(run.startedAt, run.endedAt)}`
+    );
+
+    const children = run.jobs.length + run.sentEvents.length;
+    run.jobs.forEach((job, j) => {
+      const last = j === children - 1;
+      const duration = job.startedAt && job.endedAt ? formatDuration(job.startedAt, job.endedAt) : "";
+      lines.push(
+        `${runPrefix}${last ? "└─" : "├─"} ${formatRunStatus(job.status)} ${c.cyan}${job.stepId}${c.reset} ${duration}`
+      );
+      if (job.error) {
+        lines.push(`${runPrefix}${last ? "   " : "│  "}${c.red}${job.error}${c.reset}`);
+      }
+    });
+
+    run.sentEvents.forEach((sent, k) => {
+      const last = run.jobs.length + k === children - 1;
+      const [head, ...rest] = formatTraceNode(sent, runPrefix + (last ? "   " : "│  "));
+      lines.push(`${runPrefix}${last ? "└─" : "├─"} ${head}`, ...rest);
+    });
+  });
+
+  return lines;
+}
+
+function formatTimelineBar(span: TimelineSpan, wallTimeMs: number, width: number): string {
+  const scale = wallTimeMs > 0 ? width / wallTimeMs : 0;
+  const start = Math.min(Math.floor(span.offsetMs * scale), width - 1);
+  // Every step gets at least one cell so instant steps stay visible
+  const length = Math.max(Math.round(span.durationMs * scale), 1);
+  const end = Math.min(start + length, width);
+
+  const s = span.status.toLowerCase();
+  const color = s === "failed" ? c.red : span.running ? c.cyan : span.retried ? c.yellow : c.green;
+
+  return (
+    `${c.dim}${"·".repeat(start)}${c.reset}` +
+    `${color}${"█".repeat(end - start)}${c.reset}` +
+    `${c.dim}${"·".repeat(width - end)}${c.reset}`
+  );
+}
+
+// One character per bucket, scaled to the row's peak; adjacent buckets are
+// summed when there are more buckets than columns
+function formatSparkline(counts: number[], width: number): string {
+  const factor = Math.ceil(counts.length / width);
+  const merged: number[] = [];
+  for (let i = 0; i < counts.length; i += factor) {
+    merged.push(counts.slice(i, i + factor).reduce((sum, count) => sum + count, 0));
+  }
+
+  const peak = Math.max(...merged);
+  return merged
+    .map((count) => {
+      if (count === 0) return " ";
+      const level = Math.ceil((count / peak) * SPARK_CHARS.length) - 1;
+      return SPARK_CHARS[Math.max(level, 0)];
+    })
+    .join("");
+}
+
+// Largest unit that divides the bucket evenly, e.g. "15m" or "1d"
+function formatBucketSize(ms: number): string {
+  const units: Array<[string, number]> = [
+    ["d", 86400000],
+    ["h", 3600000],
+    ["m", 60000],
+    ["s", 1000],
+  ];
+  const unit = units.find(([, size]) => ms % size === 0);
+  return unit ? `${ms / unit[1]}${unit[0]}` : `${ms}ms`;
+}
+
+function formatUtc(ts: string): string {
+  return ts.slice(0, 16).replace("T", " ");
+}
+
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(2)}s`;
+  if (ms < 3600000) return `${(ms / 60000).toFixed(2)}m`;
+  return `${(ms / 3600000).toFixed(2)}h`;
+}
+
+function formatRunWatch(update: RunWatchUpdate): string[] {
+  const { run, jobs } = update;
+  const lines = [
+    `${c.bold}Run${c.reset} ${c.cyan}${run.runId}${c.reset} ${formatRunStatus(run.status)} ${c.magenta}${run.functionId}${c.reset} ${calculateDuration(run.startedAt, run.endedAt)}`,
+    "",
+  ];
+
+  if (jobs.length === 0) {
+    lines.push(`${c.dim}Waiting for steps...${c.reset}`);
+  }
+
+  for (const job of jobs) {
+    lines.push(formatJobLine(job));
+    if (job.error) {
+      lines.push(`  ${c.red}Error: ${job.error}${c.reset}`);
+    }
+  }
+
+  return lines;
+}
+
+function formatJobLine(job: RunJob): string {
+  const status = formatRunStatus(job.status);
+  const duration = job.startedAt && job.endedAt ? formatDuration(job.startedAt, job.endedAt) : "";
+  const ts = job.startedAt ? formatTimestamp(job.startedAt) : "";
+  const step = `${c.magenta}${truncate(job.stepId, 30)}${c.reset}`;
+
+  return `${ts} ${status} ${step} ${c.dim}${job.jobId.slice(0, 12)}${c.reset} ${duration}`;
+}
+
 function formatEventLine(event: EventDetails): string {
   const ts = formatTimestamp(event.receivedAt);
   const name = formatEventName(event.name);
@@ -305,6 +1143,14 @@ function formatEventLine(event: EventDetails): string {
   return `${ts} ${name} ${id} ${dataPreview}`;
 }
 
+function formatTailRunLine(eventId: string, run: EventRun): string {
+  const status = formatRunStatus(run.status);
+  const funcId = `${c.cyan}${truncate(run.functionId, 40)}${c.reset}`;
+  const duration = run.startedAt && run.endedAt ? formatDuration(run.startedAt, run.endedAt) : "";
+
+  return `  ${c.dim}↳${c.reset} ${status} ${funcId} ${c.dim}${run.runId.slice(0, 12)} ← ${eventId.slice(0, 12)}${c.reset} ${duration}`;
+}
+
 function formatEventName(name: string): string {
   // Color-code based on common event name patterns (black text on colored bg for contrast)
   const nameLower = name.toLowerCase();
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { applyQuery } from "./query";
+
+const eventList = {
+  events: [
+    { id: "evt-1", name: "user.signup", receivedAt: "2024-01-01T10:00:00Z", data: { userId: "u1", plan: "pro" } },
+    { id: "evt-2", name: "user.signup", receivedAt: "2024-01-01T10:00:01Z", data: { userId: "u2", plan: "free" } },
+  ],
+  meta: { fetchedAt: "2024-01-01T10:00:02Z", total: 2 },
+};
+
+describe("query", () => {
+  describe("applyQuery", () => {
+    test("returns the result untouched without options", () => {
+      expect(applyQuery(eventList, {})).toBe(eventList);
+    });
+
+    test("filters and projects event lists", () => {
+      const result = applyQuery(eventList, {
+        where: 'data.plan == "pro"',
+        fields: ["id", "data.userId"],
+      });
+
+      expect(result).toEqual({
+        events: [{ id: "evt-1", "data.userId": "u1" }],
+        meta: { fetchedAt: "2024-01-01T10:00:02Z", total: 1 },
+      });
+    });
+
+    test("filters arrays", () => {
+      const runs = [
+        { runId: "run-1", status: "Completed" },
+        { runId: "run-2", status: "Failed" },
+      ];
+
+      expect(applyQuery(runs, { where: 'status == "Failed"' })).toEqual([runs[1]]);
+    });
+
+    test("returns null for a single object that does not match", () => {
+      const run = { runId: "run-1", status: "Completed" };
+
+      expect(applyQuery(run, { where: 'status == "Failed"' })).toBeNull();
+      expect(applyQuery(run, { fields: ["status"] })).toEqual({ status: "Completed" });
+    });
+
+    test("wraps expression errors", () => {
+      expect(() => applyQuery([], { where: "status ==" })).toThrow("Invalid --where expression");
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { parseExpression, parsePath, getPath, matches, type Expr } from "./expr";
+import { ValidationError } from "./errors";
+
+// Types
+export interface QueryOptions {
+  fields?: string[];
+  where?: string;
+}
+
+// Main exports
+// Lists keep their shape with non-matching items dropped; a single object that
+// fails `where` becomes null. Projected fields are keyed by their path
+export function applyQuery(result: unknown, options: QueryOptions): unknown {
+  if (!options.fields && !options.where) {
+    return result;
+  }
+
+  const where = options.where ? parseWhere(options.where) : undefined;
+  const fields = options.fields?.map((field) => ({ key: field, path: parsePath(field) }));
+
+  const query = (items: unknown[]) =>
+    items
+      .filter((item) => !where || matches(where, item))
+      .map((item) => (fields ? project(item, fields) : item));
+
+  if (Array.isArray(result)) {
+    return query(result);
+  }
+
+  if (isObject(result) && Array.isArray(result.events) && isObject(result.meta)) {
+    const events = query(result.events);
+    return { ...result, events, meta: { ...result.meta, total: events.length } };
+  }
+
+  if (isObject(result) && Array.isArray(result.cancellations)) {
+    return { ...result, cancellations: query(result.cancellations) };
+  }
+
+  if (isObject(result) && Array.isArray(result.functions) && "scannedEvents" in result) {
+    return { ...result, functions: query(result.functions) };
+  }
+
+  if (where && !matches(where, result)) {
+    return null;
+  }
+  return fields ? project(result, fields) : result;
+}
+
+// Helpers
+function parseWhere(source: string): Expr {
+  try {
+    return parseExpression(source);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ValidationError(`Invalid --where expression: ${message}`);
+  }
+}
+
+function project(
+  item: unknown,
+  fields: Array<{ key: string; path: string[] }>
+): Record<string, unknown> {
+  const projected: Record<string, unknown> = {};
+  for (const field of fields) {
+    projected[field.key] = getPath(item, field.path);
+  }
+  return projected;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,162 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { rmSync } from "node:fs";
+import type { Server } from "bun";
+import { replayEvents, resolveReplayTarget, parseOverrides, applyOverrides } from "./replay";
+import { saveConfig } from "./config";
+import { createMockServer, mockEventResponse } from "./test-utils";
+
+const CONFIG_PATH = "/tmp/inngest-ctl-replay-test-config/config";
+
+describe("replay", () => {
+  let server: Server;
+  let port: number;
+  let sentBodies: unknown[] = [];
+  // x-inngest-env of each request, e.g. "GET feature-x"
+  let envHeaders: string[] = [];
+
+  function recordEnv(req: Request) {
+    envHeaders.push(`${req.method} ${req.headers.get("x-inngest-env") ?? "-"}`);
+  }
+
+  beforeAll(() => {
+    server = createMockServer({
+      routes: [
+        {
+          method: "GET",
+          path: "/v1/events/evt-1",
+          handler: (req) => {
+            recordEnv(req);
+            return mockEventResponse("evt-1", "user.signup", { userId: "u1", plan: { tier: "free" } });
+          },
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-2",
+          response: mockEventResponse("evt-2", "order.created", { orderId: "o1" }),
+        },
+        {
+          method: "POST",
+          path: "/e/",
+          handler: async (req) => {
+            recordEnv(req);
+            const body = await req.json();
+            const events = Array.isArray(body) ? body : [body];
+            sentBodies.push(...events);
+            return { ids: events.map((_: unknown, i: number) => `new-${i}`), status: 200 };
+          },
+        },
+      ],
+    });
+    port = server.port;
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  describe("replayEvents", () => {
+    test("re-sends the event with overrides and a fresh dedupe ID", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+      sentBodies = [];
+
+      const result = await replayEvents(["evt-1"], {
+        dev: true,
+        set: { "plan.tier": "pro" },
+      });
+
+      expect(result.failed).toBe(0);
+      expect(result.replayed[0]).toMatchObject({ sourceId: "evt-1", name: "user.signup", id: "new-0" });
+      expect(sentBodies[0]).toMatchObject({
+        name: "user.signup",
+        data: { userId: "u1", plan: { tier: "pro" } },
+      });
+      expect((sentBodies[0] as { id: string }).id).toBe(result.replayed[0].dedupeId!);
+    });
+
+    test("uses an explicit dedupe ID", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+      sentBodies = [];
+
+      await replayEvents(["evt-1"], { dev: true, id: "replay-1" });
+
+      expect((sentBodies[0] as { id: string }).id).toBe("replay-1");
+    });
+
+    test("replays in bulk and reports missing events", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await replayEvents(["evt-1", "evt-missing", "evt-2"], { dev: true });
+
+      expect(result.failed).toBe(1);
+      expect(result.replayed.map((r) => r.id)).toEqual(["new-0", undefined, "new-1"]);
+      expect(result.replayed[1].error).toContain("404");
+    });
+
+    test("reads from --env and sends to --to-env", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+      envHeaders = [];
+
+      const source = { dev: true, env: "production" };
+      await replayEvents(["evt-1"], { ...source, to: resolveReplayTarget(undefined, "feature-x", source) });
+
+      expect(envHeaders).toEqual(["GET production", "POST feature-x"]);
+    });
+
+    test("sends to the target profile's env rather than INNGEST_ENV", async () => {
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+      process.env.INNGEST_CTL_CONFIG = CONFIG_PATH;
+      process.env.INNGEST_ENV = "from-shell";
+      saveConfig({
+        profiles: {
+          preview: { dev: true, env: "preview-branch" },
+          plain: { dev: true },
+        },
+      });
+
+      try {
+        envHeaders = [];
+        await replayEvents(["evt-1"], { dev: true, to: resolveReplayTarget("preview", undefined, { dev: true }) });
+        expect(envHeaders).toEqual(["GET from-shell", "POST preview-branch"]);
+
+        envHeaders = [];
+        await replayEvents(["evt-1"], { dev: true, to: resolveReplayTarget("plain", undefined, { dev: true }) });
+        expect(envHeaders).toEqual(["GET from-shell", "POST -"]);
+      } finally {
+        rmSync(CONFIG_PATH, { force: true });
+        delete process.env.INNGEST_CTL_CONFIG;
+        delete process.env.INNGEST_ENV;
+      }
+    });
+
+    test("rejects an explicit ID for multiple events", async () => {
+      await expect(replayEvents(["evt-1", "evt-2"], { id: "x" })).rejects.toThrow(
+        "--id can only be used when replaying a single event"
+      );
+    });
+  });
+
+  describe("parseOverrides", () => {
+    test("parses JSON values and falls back to strings", () => {
+      expect(parseOverrides(["count=3", "active=true", "name=alice", "tags=[1,2]"])).toEqual({
+        count: 3,
+        active: true,
+        name: "alice",
+        tags: [1, 2],
+      });
+    });
+
+    test("rejects pairs without a key", () => {
+      expect(() => parseOverrides(["=1"])).toThrow("Invalid --set value");
+    });
+  });
+
+  describe("applyOverrides", () => {
+    test("sets nested paths without mutating the input", () => {
+      const data = { user: { id: "u1" } };
+      const result = applyOverrides(data, { "user.plan": "pro", "meta.source": "replay" });
+
+      expect(result).toEqual({ user: { id: "u1", plan: "pro" }, meta: { source: "replay" } });
+      expect(data).toEqual({ user: { id: "u1" } });
+    });
+  });
+});
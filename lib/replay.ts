@@ -0,0 +1,150 @@
+import type { ClientOptions } from "./client";
+import { resolveProfile } from "./config";
+import { getEvent, sendEventBatch, type BatchEventInput } from "./events";
+import { mapConcurrent } from "./concurrency";
+import { ValidationError } from "./errors";
+
+// Types
+export interface ReplayOptions extends ClientOptions {
+  to?: ClientOptions;
+  id?: string;
+  set?: Record<string, unknown>;
+  concurrency?: number;
+}
+
+export interface ReplayedEvent {
+  sourceId: string;
+  name?: string;
+  id?: string;
+  dedupeId?: string;
+  error?: string;
+}
+
+export interface ReplayResult {
+  replayed: ReplayedEvent[];
+  failed: number;
+}
+
+// Constants
+const DEFAULT_CONCURRENCY = 5;
+
+// Main exports
+// Each replay gets a fresh dedupe ID unless --id is given, so the gateway does
+// not drop it as a duplicate of the original
+export async function replayEvents(
+  eventIds: string[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  if (options.id && eventIds.length > 1) {
+    throw new ValidationError("--id can only be used when replaying a single event");
+  }
+
+  const fetched = await mapConcurrent(
+    eventIds,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (eventId) => {
+      try {
+        return { eventId, event: await getEvent(eventId, options) };
+      } catch (err) {
+        return { eventId, error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+  );
+
+  const replayed: ReplayedEvent[] = fetched.map(({ eventId, event, error }) => ({
+    sourceId: eventId,
+    name: event?.name,
+    dedupeId: event ? options.id || crypto.randomUUID() : undefined,
+    error,
+  }));
+
+  const inputs: BatchEventInput[] = [];
+  fetched.forEach(({ event }, i) => {
+    if (!event) return;
+    inputs.push({
+      line: i + 1,
+      event: {
+        name: event.name,
+        data: applyOverrides(event.data ?? {}, options.set ?? {}),
+        user: event.user,
+        id: replayed[i].dedupeId,
+      },
+    });
+  });
+
+  if (inputs.length > 0) {
+    const sent = await sendEventBatch(inputs, options.to ?? options);
+    for (const result of sent.results) {
+      const item = replayed[result.line - 1];
+      item.id = result.id;
+      item.error = result.error;
+    }
+  }
+
+  return {
+    replayed,
+    failed: replayed.filter((item) => item.error !== undefined).length,
+  };
+}
+
+// A target profile sends to its own env, not --env or INNGEST_ENV (which pick
+// the source); undefined sends back to the source
+export function resolveReplayTarget(
+  target: string | undefined,
+  env: string | undefined,
+  options: ClientOptions
+): ClientOptions | undefined {
+  if (target === "dev") {
+    // An empty env sends no x-inngest-env header
+    return { ...options, dev: true, profile: undefined, env: env ?? "" };
+  }
+  if (target) {
+    return { ...options, dev: false, profile: target, env: env ?? resolveProfile(target).env ?? "" };
+  }
+  return env === undefined ? undefined : { ...options, env };
+}
+
+// Parse `key=value` overrides. Values are JSON when they parse, else strings.
+// Keys may be dotted paths into nested data, e.g. `user.plan=pro`.
+export function parseOverrides(pairs: string[]): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+
+  for (const pair of pairs) {
+    const eqIndex = pair.indexOf("=");
+    if (eqIndex <= 0) {
+      throw new ValidationError(`Invalid --set value: ${pair}. Use key=value`);
+    }
+
+    const key = pair.slice(0, eqIndex);
+    const raw = pair.slice(eqIndex + 1);
+    try {
+      overrides[key] = JSON.parse(raw);
+    } catch {
+      overrides[key] = raw;
+    }
+  }
+
+  return overrides;
+}
+
+export function applyOverrides(
+  data: Record<string, unknown>,
+  overrides: Record<string, unknown>
+): Record<string, unknown> {
+  const result = structuredClone(data);
+
+  for (const [path, value] of Object.entries(overrides)) {
+    const keys = path.split(".");
+    let target: Record<string, unknown> = result;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      if (typeof next !== "object" || next === null || Array.isArray(next)) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return result;
+}
@@ -1,15 +1,43 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import type { Server } from "bun";
-import { getRun, getRunJobs } from "./runs";
+import { getRun, getRunJobs, watchRun, buildTimeline, type RunWatchUpdate } from "./runs";
 import { createMockServer, mockRunResponse } from "./test-utils";
 
 describe("runs", () => {
   let server: Server;
   let port: number;
+  let flakyPolls = 0;
 
   beforeAll(() => {
     server = createMockServer({
       routes: [
+        {
+          method: "GET",
+          path: "/v1/runs/run-finishing/jobs",
+          response: { data: [] },
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-running/jobs",
+          response: { data: [] },
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-failed/jobs",
+          response: { data: [] },
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-finishing",
+          // Completes on the third poll
+          handler: () =>
+            mockRunResponse({
+              runId: "run-finishing",
+              status: ++flakyPolls >= 3 ? "Completed" : "Running",
+              functionId: "test-app-test-func",
+              startedAt: "2024-01-01T10:00:00Z",
+            }),
+        },
         {
           method: "GET",
           path: "/v1/runs/run-completed",
@@ -119,6 +147,46 @@ describe("runs", () => {
     });
   });
 
+  describe("watchRun", () => {
+    test("polls until the run reaches a terminal status", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const updates: RunWatchUpdate[] = [];
+      const result = await watchRun("run-finishing", {
+        interval: 5,
+        dev: true,
+        onUpdate: (update) => updates.push(update),
+      });
+
+      expect(result.run.status).toBe("Completed");
+      expect(result.timedOut).toBe(false);
+      expect(result.polls).toBe(3);
+      expect(updates.map((u) => u.run.status)).toEqual(["Running", "Completed"]);
+    });
+
+    test("returns immediately for a finished run", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await watchRun("run-failed", { dev: true });
+
+      expect(result.run.status).toBe("Failed");
+      expect(result.polls).toBe(1);
+    });
+
+    test("stops when the timeout expires", async () => {
+      process.env.INNGEST_SIGNING_KEY = "test-key";
+      process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+
+      const result = await watchRun("run-running", { interval: 10, timeout: 50, dev: true });
+
+      expect(result.run.status).toBe("Running");
+      expect(result.timedOut).toBe(true);
+      expect(result.polls).toBeGreaterThan(1);
+    });
+  });
+
   describe("getRunJobs", () => {
     test("returns jobs for a run", async () => {
       process.env.INNGEST_SIGNING_KEY = "test-key";
@@ -142,4 +210,58 @@ describe("runs", () => {
       expect(jobs).toHaveLength(0);
     });
   });
+
+  describe("buildTimeline", () => {
+    const run = {
+      runId: "run-1",
+      status: "Completed",
+      functionId: "test-func",
+      startedAt: "2024-01-01T00:00:00.000Z",
+      endedAt: "2024-01-01T00:00:10.000Z",
+    };
+    const job = (stepId: string, start: number, end: number, status = "Completed") => ({
+      jobId: `${stepId}-${start}`,
+      stepId,
+      status,
+      startedAt: new Date(Date.UTC(2024, 0, 1, 0, 0, start)).toISOString(),
+      endedAt: new Date(Date.UTC(2024, 0, 1, 0, 0, end)).toISOString(),
+    });
+
+    test("places steps relative to the run start", () => {
+      const timeline = buildTimeline(run, [job("b", 4, 6), job("a", 0, 2)]);
+
+      expect(timeline.spans.map((span) => [span.stepId, span.offsetMs, span.durationMs])).toEqual([
+        ["a", 0, 2000],
+        ["b", 4000, 2000],
+      ]);
+      expect(timeline.wallTimeMs).toBe(10000);
+      expect(timeline.activeTimeMs).toBe(4000);
+    });
+
+    test("counts overlapping steps once in active time", () => {
+      const timeline = buildTimeline(run, [job("a", 0, 4), job("b", 2, 6)]);
+
+      expect(timeline.activeTimeMs).toBe(6000);
+    });
+
+    test("marks retried steps with their attempt", () => {
+      const timeline = buildTimeline(run, [job("a", 0, 1, "Failed"), job("a", 3, 4), job("b", 5, 6)]);
+
+      expect(timeline.spans.map((span) => [span.stepId, span.attempt, span.retried])).toEqual([
+        ["a", 1, true],
+        ["a", 2, true],
+        ["b", 1, false],
+      ]);
+    });
+
+    test("extends running steps to now", () => {
+      const now = Date.UTC(2024, 0, 1, 0, 0, 8);
+      const running = { ...job("a", 5, 5, "Running"), endedAt: undefined };
+      const timeline = buildTimeline({ ...run, status: "Running", endedAt: undefined }, [running], now);
+
+      expect(timeline.spans[0].running).toBe(true);
+      expect(timeline.spans[0].durationMs).toBe(3000);
+      expect(timeline.wallTimeMs).toBe(8000);
+    });
+  });
 });
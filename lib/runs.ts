@@ -1,4 +1,6 @@
-import { createClient, apiRequest } from "./client";
+import { createClient, apiRequest, getShutdownSignal, type ClientOptions } from "./client";
+import { sleep } from "./time";
+import { ApiError } from "./errors";
 
 // Types
 export interface RunJob {
@@ -22,6 +24,46 @@ export interface RunStatus {
   output?: unknown;
 }
 
+export interface WatchRunOptions extends ClientOptions {
+  interval?: number;
+  maxInterval?: number;
+  timeout?: number;
+  onUpdate?: (update: RunWatchUpdate) => void;
+}
+
+export interface RunWatchUpdate {
+  run: RunStatus;
+  jobs: RunJob[];
+}
+
+export interface RunWatchResult extends RunWatchUpdate {
+  timedOut: boolean;
+  interrupted: boolean;
+  polls: number;
+}
+
+export interface TimelineSpan {
+  jobId: string;
+  stepId: string;
+  status: string;
+  // Relative to the run's start
+  offsetMs: number;
+  durationMs: number;
+  // 1-based attempt number; steps seen more than once were retried
+  attempt: number;
+  retried: boolean;
+  running: boolean;
+  error?: string;
+}
+
+export interface RunTimeline {
+  run: RunStatus;
+  spans: TimelineSpan[];
+  wallTimeMs: number;
+  // Time with at least one step executing; the rest is sleeps, waits and queueing
+  activeTimeMs: number;
+}
+
 interface RawRun {
   run_id: string;
   status: string;
@@ -55,12 +97,18 @@ interface GetRunJobsResponse {
   data: RawJob[];
 }
 
+// Constants
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+const DEFAULT_WATCH_INTERVAL = 2000;
+const DEFAULT_WATCH_MAX_INTERVAL = 30000;
+const WATCH_BACKOFF_FACTOR = 1.5;
+
 // Main exports
 export async function getRun(
   runId: string,
-  options: { dev?: boolean; port?: number } = {}
+  options: ClientOptions = {}
 ): Promise<RunStatus> {
-  const client = createClient({ dev: options.dev, port: options.port });
+  const client = createClient(options);
   const response = await apiRequest<GetRunResponse>(
     client,
     "GET",
@@ -69,7 +117,7 @@ export async function getRun(
 
   const raw = response.data;
   if (!raw) {
-    throw new Error(`Run not found: ${runId}`);
+    throw new ApiError(`Run not found: ${runId}`, { status: 404, path: `/v1/runs/${runId}` });
   }
 
   return {
@@ -86,9 +134,9 @@ export async function getRun(
 
 export async function getRunJobs(
   runId: string,
-  options: { dev?: boolean; port?: number } = {}
+  options: ClientOptions = {}
 ): Promise<RunJob[]> {
-  const client = createClient({ dev: options.dev, port: options.port });
+  const client = createClient(options);
   const response = await apiRequest<GetRunJobsResponse>(
     client,
     "GET",
@@ -97,6 +145,117 @@ export async function getRunJobs(
   return normalizeJobs(response.data || []);
 }
 
+// The poll interval backs off while nothing changes and resets when the run
+// or one of its steps does
+export async function watchRun(
+  runId: string,
+  options: WatchRunOptions = {}
+): Promise<RunWatchResult> {
+  const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+  const maxInterval = Math.max(options.maxInterval ?? DEFAULT_WATCH_MAX_INTERVAL, interval);
+  const deadline = options.timeout ? Date.now() + options.timeout : Infinity;
+
+  const shutdown = getShutdownSignal();
+  let delay = interval;
+  let polls = 0;
+  let previous = "";
+  let last: RunWatchUpdate | undefined;
+
+  while (true) {
+    let run: RunStatus;
+    let jobs: RunJob[];
+    try {
+      [run, jobs] = await Promise.all([getRun(runId, options), getRunJobs(runId, options)]);
+    } catch (err) {
+      // Ctrl-C mid-poll: report the last state seen rather than failing
+      if (shutdown.aborted && last) {
+        return { ...last, timedOut: false, interrupted: true, polls };
+      }
+      throw err;
+    }
+    polls++;
+    last = { run, jobs };
+
+    const snapshot = JSON.stringify([run.status, run.endedAt, jobs]);
+    if (snapshot !== previous) {
+      previous = snapshot;
+      delay = interval;
+      options.onUpdate?.({ run, jobs });
+    } else {
+      delay = Math.min(delay * WATCH_BACKOFF_FACTOR, maxInterval);
+    }
+
+    if (isTerminalStatus(run.status)) {
+      return { run, jobs, timedOut: false, interrupted: false, polls };
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { run, jobs, timedOut: true, interrupted: false, polls };
+    }
+
+    await sleep(Math.min(delay, remaining), shutdown);
+    if (shutdown.aborted) {
+      return { run, jobs, timedOut: false, interrupted: true, polls };
+    }
+  }
+}
+
+// Jobs laid out relative to the run's start; unfinished steps extend to `now`
+export async function getRunTimeline(
+  runId: string,
+  options: ClientOptions = {},
+  now: number = Date.now()
+): Promise<RunTimeline> {
+  const [run, jobs] = await Promise.all([getRun(runId, options), getRunJobs(runId, options)]);
+  return buildTimeline(run, jobs, now);
+}
+
+export function buildTimeline(run: RunStatus, jobs: RunJob[], now: number = Date.now()): RunTimeline {
+  const started = jobs.filter((job) => job.startedAt);
+  const jobStarts = started.map((job) => new Date(job.startedAt!).getTime());
+  const runStart = run.startedAt ? new Date(run.startedAt).getTime() : Math.min(now, ...jobStarts);
+  const runEnd = run.endedAt ? new Date(run.endedAt).getTime() : now;
+
+  const attempts = new Map<string, number>();
+  const totals = new Map<string, number>();
+  for (const job of started) {
+    totals.set(job.stepId, (totals.get(job.stepId) ?? 0) + 1);
+  }
+
+  const spans = [...started]
+    .sort((a, b) => new Date(a.startedAt!).getTime() - new Date(b.startedAt!).getTime())
+    .map((job) => {
+      const start = new Date(job.startedAt!).getTime();
+      const end = job.endedAt ? new Date(job.endedAt).getTime() : now;
+      const attempt = (attempts.get(job.stepId) ?? 0) + 1;
+      attempts.set(job.stepId, attempt);
+
+      return {
+        jobId: job.jobId,
+        stepId: job.stepId,
+        status: job.status,
+        offsetMs: start - runStart,
+        durationMs: Math.max(end - start, 0),
+        attempt,
+        retried: (totals.get(job.stepId) ?? 0) > 1,
+        running: !job.endedAt,
+        error: job.error,
+      };
+    });
+
+  return {
+    run,
+    spans,
+    wallTimeMs: Math.max(runEnd - runStart, 0),
+    activeTimeMs: unionLength(spans.map((span) => [span.offsetMs, span.offsetMs + span.durationMs])),
+  };
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_STATUSES.includes(status.toLowerCase());
+}
+
 // Helpers
 function normalizeJobs(raw: RawJob[]): RunJob[] {
   return raw.map((job) => ({
@@ -109,3 +268,17 @@ function normalizeJobs(raw: RawJob[]): RunJob[] {
     error: job.error,
   }));
 }
+
+// Total length covered by a set of possibly overlapping intervals
+function unionLength(intervals: number[][]): number {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let currentEnd = -Infinity;
+
+  for (const [start, end] of sorted) {
+    if (end <= currentEnd) continue;
+    total += end - Math.max(start, currentEnd);
+    currentEnd = end;
+  }
+  return total;
+}
@@ -0,0 +1,191 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import { getEventStats, getRunStats } from "./stats";
+import { createMockServer, mockEventRunsResponse } from "./test-utils";
+
+describe("stats", () => {
+  let server: Server;
+  let port: number;
+
+  const now = new Date("2024-01-01T12:00:00.000Z").getTime();
+  const rawEvent = (id: string, name: string, receivedAt: string, data: Record<string, unknown> = {}) => ({
+    id,
+    internal_id: id,
+    name,
+    received_at: receivedAt,
+    data,
+  });
+
+  beforeAll(() => {
+    server = createMockServer({
+      routes: [
+        {
+          method: "GET",
+          path: "/v1/events/e1/runs",
+          response: mockEventRunsResponse([
+            {
+              runId: "r1",
+              status: "Completed",
+              functionId: "app-welcome",
+              startedAt: "2024-01-01T11:45:00.000Z",
+              endedAt: "2024-01-01T11:45:01.000Z",
+            },
+            {
+              runId: "r2",
+              status: "Failed",
+              functionId: "app-billing",
+              startedAt: "2024-01-01T11:45:00.000Z",
+              endedAt: "2024-01-01T11:45:05.000Z",
+            },
+          ]),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/e2/runs",
+          response: mockEventRunsResponse([
+            {
+              runId: "r3",
+              status: "Completed",
+              functionId: "app-welcome",
+              startedAt: "2024-01-01T11:10:00.000Z",
+              endedAt: "2024-01-01T11:10:03.000Z",
+            },
+            { runId: "r4", status: "Running", functionId: "app-welcome", startedAt: "2024-01-01T11:10:00.000Z" },
+          ]),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/e3/runs",
+          response: mockEventRunsResponse([
+            {
+              runId: "r5",
+              status: "Failed",
+              functionId: "app-send-welcome",
+              startedAt: "2024-01-01T10:30:00.000Z",
+              endedAt: "2024-01-01T10:30:02.000Z",
+            },
+          ]),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/",
+          response: mockEventRunsResponse([]),
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/r2/jobs",
+          response: {
+            data: [
+              { job_id: "j1", step_id: "charge", status: "Failed", error: "card declined\n    at charge (billing.ts:10)" },
+            ],
+          },
+        },
+        {
+          method: "GET",
+          path: "/v1/events",
+          handler: (_req, url) => {
+            const name = url.searchParams.get("name");
+            const events = [
+              rawEvent("e1", "user.signup", "2024-01-01T11:45:00.000Z", { plan: "pro" }),
+              rawEvent("e2", "user.signup", "2024-01-01T11:10:00.000Z", { plan: "free" }),
+              rawEvent("e3", "user.signup", "2024-01-01T10:30:00.000Z", { plan: "pro" }),
+              rawEvent("e4", "order.created", "2024-01-01T10:05:00.000Z"),
+              // Outside the window; servers that ignore received_after still return it
+              rawEvent("e0", "user.signup", "2024-01-01T08:00:00.000Z", { plan: "pro" }),
+            ];
+            return { data: events.filter((event) => !name || event.name === name) };
+          },
+        },
+      ],
+    });
+    port = server.port;
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  beforeEach(() => {
+    process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+  });
+
+  describe("getEventStats", () => {
+    test("counts events per name and aligned bucket", async () => {
+      const stats = await getEventStats({ since: "2h", bucket: 60 * 60 * 1000, dev: true }, now);
+
+      expect(stats.buckets).toEqual(["2024-01-01T10:00:00.000Z", "2024-01-01T11:00:00.000Z"]);
+      expect(stats.total).toBe(4);
+      expect(stats.names).toEqual([
+        { name: "user.signup", total: 3, counts: [1, 2] },
+        { name: "order.created", total: 1, counts: [1, 0] },
+      ]);
+      expect(stats.truncated).toBe(false);
+    });
+
+    test("picks a bucket that fits the window", async () => {
+      const stats = await getEventStats({ since: "24h", dev: true }, now);
+
+      expect(stats.bucketMs).toBe(60 * 60 * 1000);
+      expect(stats.buckets).toHaveLength(24);
+    });
+
+    test("splits counts by a group-by field", async () => {
+      const stats = await getEventStats(
+        { since: "2h", bucket: 60 * 60 * 1000, name: "user.signup", groupBy: "data.plan", dev: true },
+        now
+      );
+
+      expect(stats.names).toHaveLength(1);
+      expect(stats.names[0].groups).toEqual([
+        { value: "pro", total: 2, counts: [1, 1] },
+        { value: "free", total: 1, counts: [0, 1] },
+      ]);
+    });
+
+    test("rejects buckets that are too narrow for the window", async () => {
+      await expect(getEventStats({ since: "7d", bucket: 60 * 1000, dev: true }, now)).rejects.toThrow(
+        "--bucket gives"
+      );
+    });
+  });
+
+  describe("getRunStats", () => {
+    test("summarizes runs per function", async () => {
+      const stats = await getRunStats({ since: "2h", dev: true }, now);
+
+      expect(stats.scannedEvents).toBe(4);
+      expect(stats.total).toBe(5);
+      expect(stats.functions.map((fn) => fn.functionId)).toEqual([
+        "app-welcome",
+        "app-billing",
+        "app-send-welcome",
+      ]);
+
+      const [welcome, billing] = stats.functions;
+      expect(welcome.statuses).toEqual({ Completed: 2, Running: 1 });
+      expect(welcome.failureRate).toBe(0);
+      expect([welcome.p50Ms, welcome.p95Ms, welcome.maxMs]).toEqual([1000, 3000, 3000]);
+      expect(welcome.topErrors).toEqual([]);
+
+      expect(billing.failureRate).toBe(1);
+      expect(billing.topErrors).toEqual([{ message: "card declined", count: 1 }]);
+    });
+
+    test("filters by the app-prefixed slug or by app and slug", async () => {
+      const prefixed = await getRunStats({ since: "2h", functionId: "app-billing", dev: true }, now);
+      expect(prefixed.total).toBe(1);
+      expect(prefixed.functions[0].functionId).toBe("app-billing");
+
+      const bare = await getRunStats({ since: "2h", functionId: "billing", appId: "app", dev: true }, now);
+      expect(bare.functions.map((fn) => fn.functionId)).toEqual(["app-billing"]);
+    });
+
+    test("does not match functions whose slug ends with the filter", async () => {
+      const stats = await getRunStats({ since: "2h", functionId: "welcome", appId: "app", dev: true }, now);
+
+      expect(stats.total).toBe(3);
+      expect(stats.functions.map((fn) => fn.functionId)).toEqual(["app-welcome"]);
+      expect((await getRunStats({ since: "2h", functionId: "welcome", dev: true }, now)).total).toBe(0);
+    });
+  });
+});
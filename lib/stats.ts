@@ -0,0 +1,354 @@
+import type { ClientOptions } from "./client";
+import { listEvents, getEventRuns, type EventDetails, type EventRun } from "./events";
+import { getRunJobs, isTerminalStatus, type RunJob } from "./runs";
+import { parsePath, getPath } from "./expr";
+import { CliError, ValidationError, isTransientError } from "./errors";
+import { mapConcurrent } from "./concurrency";
+import { parseTime } from "./time";
+
+// Types
+export interface EventStatsOptions extends ClientOptions {
+  since?: string;
+  until?: string;
+  // Bucket width in ms; picked from the window when omitted
+  bucket?: number;
+  name?: string;
+  // Path into each event, e.g. `data.plan`
+  groupBy?: string;
+  max?: number;
+}
+
+export interface EventStatsGroup {
+  value: string;
+  total: number;
+  counts: number[];
+}
+
+export interface EventNameStats {
+  name: string;
+  total: number;
+  // One count per entry in `buckets`
+  counts: number[];
+  groups?: EventStatsGroup[];
+}
+
+export interface EventStats {
+  since: string;
+  until: string;
+  bucketMs: number;
+  // Start time of each bucket
+  buckets: string[];
+  groupBy?: string;
+  total: number;
+  // More events matched than --max allowed; counts are a lower bound
+  truncated: boolean;
+  names: EventNameStats[];
+}
+
+export interface RunStatsOptions extends ClientOptions {
+  since?: string;
+  until?: string;
+  // Function slug; app-prefixed, or bare with appId
+  functionId?: string;
+  appId?: string;
+  // Max events to scan for runs
+  max?: number;
+  concurrency?: number;
+}
+
+export interface RunErrorCount {
+  message: string;
+  count: number;
+}
+
+export interface FunctionRunStats {
+  functionId: string;
+  total: number;
+  // Run count per status, e.g. { Completed: 10, Failed: 2 }
+  statuses: Record<string, number>;
+  // Failed runs as a share of finished runs, 0-1
+  failureRate: number;
+  // Over finished runs with start and end times
+  p50Ms?: number;
+  p95Ms?: number;
+  maxMs?: number;
+  topErrors: RunErrorCount[];
+}
+
+export interface RunStats {
+  since: string;
+  until: string;
+  functionId?: string;
+  scannedEvents: number;
+  total: number;
+  // More events were in the window than --max allowed
+  truncated: boolean;
+  functions: FunctionRunStats[];
+}
+
+// Constants
+const DEFAULT_STATS_SINCE = "24h";
+const DEFAULT_RUN_STATS_SINCE = "6h";
+const DEFAULT_RUN_STATS_EVENTS = 500;
+const DEFAULT_RUN_STATS_CONCURRENCY = 5;
+// Failed runs whose steps are fetched for error messages, most recent first
+const MAX_ERROR_RUNS = 100;
+const TOP_ERRORS = 5;
+const MAX_ERROR_LENGTH = 200;
+const DEFAULT_STATS_MAX = 10000;
+const MAX_BUCKETS = 500;
+const TARGET_BUCKETS = 48;
+const NICE_BUCKETS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  15 * 60 * 1000,
+  60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+];
+// Beyond this many distinct values per name the rest are counted as OTHER_GROUP
+const MAX_GROUPS = 20;
+const OTHER_GROUP = "(other)";
+const MISSING_GROUP = "(none)";
+
+// Main exports
+// Buckets are aligned to multiples of the bucket width, so hourly buckets
+// start on the hour
+export async function getEventStats(
+  options: EventStatsOptions = {},
+  now: number = Date.now()
+): Promise<EventStats> {
+  const since = parseTime(options.since ?? DEFAULT_STATS_SINCE, now);
+  const until = options.until ? parseTime(options.until, now) : new Date(now).toISOString();
+  const start = new Date(since).getTime();
+  const end = new Date(until).getTime();
+  if (end <= start) {
+    throw new ValidationError("--until must be after --since");
+  }
+
+  const bucketMs = options.bucket ?? pickBucket(end - start);
+  const first = Math.floor(start / bucketMs) * bucketMs;
+  const bucketCount = Math.ceil((end - first) / bucketMs);
+  if (bucketCount > MAX_BUCKETS) {
+    throw new ValidationError(
+      `--bucket gives ${bucketCount} buckets; use a wider bucket for at most ${MAX_BUCKETS}`
+    );
+  }
+  const groupPath = options.groupBy ? parsePath(options.groupBy) : undefined;
+
+  const { events, meta } = await listEvents({
+    ...options,
+    all: true,
+    max: options.max ?? DEFAULT_STATS_MAX,
+    receivedAfter: since,
+    receivedBefore: until,
+  });
+
+  const byName = new Map<string, { counts: number[]; groups: Map<string, number[]> }>();
+  for (const event of events) {
+    const index = Math.floor((new Date(event.receivedAt).getTime() - first) / bucketMs);
+    if (index < 0 || index >= bucketCount) continue;
+
+    let entry = byName.get(event.name);
+    if (!entry) {
+      entry = { counts: new Array(bucketCount).fill(0), groups: new Map() };
+      byName.set(event.name, entry);
+    }
+    entry.counts[index]++;
+
+    if (groupPath) {
+      const value = groupValue(event, groupPath);
+      const counts = entry.groups.get(value) ?? new Array(bucketCount).fill(0);
+      counts[index]++;
+      entry.groups.set(value, counts);
+    }
+  }
+
+  const names = [...byName].map(([name, entry]): EventNameStats => {
+    const stats: EventNameStats = { name, total: sum(entry.counts), counts: entry.counts };
+    if (groupPath) {
+      stats.groups = topGroups(entry.groups, bucketCount);
+    }
+    return stats;
+  });
+  names.sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+
+  return {
+    since,
+    until,
+    bucketMs,
+    buckets: Array.from({ length: bucketCount }, (_, i) =>
+      new Date(first + i * bucketMs).toISOString()
+    ),
+    groupBy: options.groupBy,
+    total: sum(names.map((stats) => stats.total)),
+    truncated: Boolean(meta.nextCursor),
+    names,
+  };
+}
+
+// Runs are found through events received in the window; errors come from
+// the steps of up to MAX_ERROR_RUNS failed runs
+export async function getRunStats(
+  options: RunStatsOptions = {},
+  now: number = Date.now()
+): Promise<RunStats> {
+  const since = parseTime(options.since ?? DEFAULT_RUN_STATS_SINCE, now);
+  const until = options.until ? parseTime(options.until, now) : new Date(now).toISOString();
+  const concurrency = options.concurrency ?? DEFAULT_RUN_STATS_CONCURRENCY;
+
+  const { events, meta } = await listEvents({
+    ...options,
+    all: true,
+    max: options.max ?? DEFAULT_RUN_STATS_EVENTS,
+    receivedAfter: since,
+    receivedBefore: until,
+  });
+
+  const runsPerEvent = await mapConcurrent(events, concurrency, (event) =>
+    getEventRuns(event.id, options)
+  );
+  const runs = runsPerEvent
+    .flat()
+    .filter((run) => !options.functionId || matchesFunction(run.functionId, options));
+
+  const failed = runs
+    .filter((run) => isFailed(run.status))
+    .sort((a, b) => (b.startedAt ?? "").localeCompare(a.startedAt ?? ""))
+    .slice(0, MAX_ERROR_RUNS);
+  const errors = await mapConcurrent(failed, concurrency, (run) => runError(run, options));
+  const errorsByFunction = new Map<string, string[]>();
+  failed.forEach((run, i) => {
+    const message = errors[i];
+    if (!message) return;
+    errorsByFunction.set(run.functionId, [...(errorsByFunction.get(run.functionId) ?? []), message]);
+  });
+
+  const byFunction = new Map<string, EventRun[]>();
+  for (const run of runs) {
+    byFunction.set(run.functionId, [...(byFunction.get(run.functionId) ?? []), run]);
+  }
+
+  const functions = [...byFunction].map(([functionId, functionRuns]) =>
+    summarizeRuns(functionId, functionRuns, errorsByFunction.get(functionId) ?? [])
+  );
+  functions.sort((a, b) => b.total - a.total || a.functionId.localeCompare(b.functionId));
+
+  return {
+    since,
+    until,
+    functionId: options.functionId,
+    scannedEvents: events.length,
+    total: runs.length,
+    truncated: Boolean(meta.nextCursor),
+    functions,
+  };
+}
+
+// Helpers
+function summarizeRuns(functionId: string, runs: EventRun[], errors: string[]): FunctionRunStats {
+  const statuses: Record<string, number> = {};
+  for (const run of runs) {
+    statuses[run.status] = (statuses[run.status] ?? 0) + 1;
+  }
+
+  const finished = runs.filter((run) => isTerminalStatus(run.status));
+  const failures = finished.filter((run) => isFailed(run.status)).length;
+  const durations = finished
+    .filter((run) => run.startedAt && run.endedAt)
+    .map((run) => new Date(run.endedAt!).getTime() - new Date(run.startedAt!).getTime())
+    .sort((a, b) => a - b);
+
+  const errorCounts = new Map<string, number>();
+  for (const message of errors) {
+    errorCounts.set(message, (errorCounts.get(message) ?? 0) + 1);
+  }
+  const topErrors = [...errorCounts]
+    .map(([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count || a.message.localeCompare(b.message))
+    .slice(0, TOP_ERRORS);
+
+  return {
+    functionId,
+    total: runs.length,
+    statuses,
+    failureRate: finished.length > 0 ? failures / finished.length : 0,
+    p50Ms: percentile(durations, 50),
+    p95Ms: percentile(durations, 95),
+    maxMs: durations[durations.length - 1],
+    topErrors,
+  };
+}
+
+// The last failed step's error, else an error in the run output
+async function runError(run: EventRun, options: ClientOptions): Promise<string | undefined> {
+  let jobs: RunJob[] = [];
+  try {
+    jobs = await getRunJobs(run.runId, options);
+  } catch (err) {
+    // A missing or briefly unreachable run only loses its error message
+    const skippable = isTransientError(err) || (err instanceof CliError && err.code === "not_found");
+    if (!skippable) throw err;
+  }
+  const failedJob = jobs.filter((job) => job.error).pop();
+  const output = run.output as Record<string, unknown> | undefined;
+  const message =
+    failedJob?.error ??
+    (typeof output?.error === "string" ? output.error : undefined) ??
+    (typeof output?.message === "string" ? output.message : undefined);
+
+  // Only the first line, so errors that differ in stack traces group together
+  return message?.split("\n")[0].trim().slice(0, MAX_ERROR_LENGTH) || undefined;
+}
+
+// Nearest-rank percentile of ascending values
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) return undefined;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+function isFailed(status: string): boolean {
+  return status.toLowerCase() === "failed";
+}
+
+// Runs report the app-prefixed slug; a bare slug needs the app to match it
+function matchesFunction(runFunctionId: string, options: RunStatsOptions): boolean {
+  return (
+    runFunctionId === options.functionId ||
+    (options.appId !== undefined && runFunctionId === `${options.appId}-${options.functionId}`)
+  );
+}
+
+// Smallest nice bucket that keeps the chart to about TARGET_BUCKETS columns
+function pickBucket(windowMs: number): number {
+  return (
+    NICE_BUCKETS.find((bucket) => windowMs / bucket <= TARGET_BUCKETS) ??
+    NICE_BUCKETS[NICE_BUCKETS.length - 1]
+  );
+}
+
+function groupValue(event: EventDetails, path: string[]): string {
+  const value = getPath(event, path);
+  if (value === undefined || value === null) return MISSING_GROUP;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Largest groups first; the long tail is folded into one OTHER_GROUP entry
+function topGroups(groups: Map<string, number[]>, bucketCount: number): EventStatsGroup[] {
+  const sorted = [...groups]
+    .map(([value, counts]) => ({ value, total: sum(counts), counts }))
+    .sort((a, b) => b.total - a.total || a.value.localeCompare(b.value));
+  if (sorted.length <= MAX_GROUPS) return sorted;
+
+  const rest = sorted.slice(MAX_GROUPS - 1);
+  const counts = new Array(bucketCount).fill(0);
+  for (const group of rest) {
+    group.counts.forEach((count, i) => (counts[i] += count));
+  }
+  return [...sorted.slice(0, MAX_GROUPS - 1), { value: OTHER_GROUP, total: sum(counts), counts }];
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -4,7 +4,10 @@ import type { Server } from "bun";
 interface MockRoute {
   method?: string;
   path: string;
-  response: unknown;
+  response?: unknown;
+  // Computes the response per request; takes precedence over `response`.
+  // Returning a Response sends it as is, e.g. to fail one request
+  handler?: (req: Request, url: URL) => unknown | Promise<unknown>;
   status?: number;
 }
 
@@ -22,7 +25,7 @@ export function createMockServer(options: MockServerOptions): Server {
 
   return Bun.serve({
     port,
-    fetch(req) {
+    async fetch(req) {
       const url = new URL(req.url);
       const method = req.method;
 
@@ -32,7 +35,11 @@ export function createMockServer(options: MockServerOptions): Server {
         const pathMatches = url.pathname.startsWith(route.path);
 
         if (routeMethod === method && pathMatches) {
-          return Response.json(route.response, { status: route.status ?? 200 });
+          const body = route.handler ? await route.handler(req, url) : route.response;
+          if (body instanceof Response) {
+            return body;
+          }
+          return Response.json(body, { status: route.status ?? 200 });
         }
       }
 
@@ -92,13 +99,16 @@ export function mockRunResponse(options: {
   };
 }
 
-export function mockEventRunsResponse(runs: Array<{ runId: string; status: string; functionId: string }>) {
+export function mockEventRunsResponse(
+  runs: Array<{ runId: string; status: string; functionId: string; startedAt?: string; endedAt?: string }>
+) {
   return {
     data: runs.map((r) => ({
       run_id: r.runId,
       status: r.status,
       function_id: r.functionId,
-      started_at: new Date().toISOString(),
+      started_at: r.startedAt ?? new Date().toISOString(),
+      ended_at: r.endedAt,
     })),
     metadata: {
       fetched_at: new Date().toISOString(),
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "bun:test";
+import { parseTime, parseDuration, isWithinWindow, sleep } from "./time";
+
+const NOW = new Date("2024-01-01T12:00:00.000Z").getTime();
+
+describe("time", () => {
+  describe("parseTime", () => {
+    test("normalizes ISO timestamps to UTC", () => {
+      expect(parseTime("2024-01-01T10:00:00Z", NOW)).toBe("2024-01-01T10:00:00.000Z");
+      expect(parseTime("2024-01-01T10:00:00.5Z", NOW)).toBe("2024-01-01T10:00:00.500Z");
+      expect(parseTime("2024-01-01", NOW)).toBe("2024-01-01T00:00:00.000Z");
+      expect(parseTime("2024-01-01 10:30", NOW)).toBe("2024-01-01T10:30:00.000Z");
+    });
+
+    test("applies timezone offsets", () => {
+      expect(parseTime("2024-01-01T10:00:00+02:00", NOW)).toBe("2024-01-01T08:00:00.000Z");
+      expect(parseTime("2024-01-01T10:00:00-0530", NOW)).toBe("2024-01-01T15:30:00.000Z");
+    });
+
+    test("rejects malformed ISO dates", () => {
+      expect(() => parseTime("2024-13-01", NOW)).toThrow("Invalid date: 2024-13-01");
+      expect(() => parseTime("2024-02-30T10:00:00Z", NOW)).toThrow("Invalid date");
+      expect(() => parseTime("2024-01-01T25:00:00Z", NOW)).toThrow("Invalid date");
+      expect(() => parseTime("2024-1-1", NOW)).toThrow("Invalid date");
+      expect(() => parseTime("2024-01-01Tnoon", NOW)).toThrow("Invalid date");
+    });
+
+    test("parses relative seconds, minutes, hours, days and weeks", () => {
+      expect(parseTime("30s", NOW)).toBe("2024-01-01T11:59:30.000Z");
+      expect(parseTime("15m", NOW)).toBe("2024-01-01T11:45:00.000Z");
+      expect(parseTime("1h", NOW)).toBe("2024-01-01T11:00:00.000Z");
+      expect(parseTime("2d", NOW)).toBe("2023-12-30T12:00:00.000Z");
+      expect(parseTime("1w", NOW)).toBe("2023-12-25T12:00:00.000Z");
+    });
+
+    test("parses compound durations", () => {
+      expect(parseTime("1h30m", NOW)).toBe("2024-01-01T10:30:00.000Z");
+      expect(parseTime("1d12h ago", NOW)).toBe("2023-12-31T00:00:00.000Z");
+    });
+
+    test("parses now, today and yesterday", () => {
+      expect(parseTime("now", NOW)).toBe("2024-01-01T12:00:00.000Z");
+      expect(parseTime("today", NOW)).toBe("2024-01-01T00:00:00.000Z");
+      expect(parseTime("Yesterday", NOW)).toBe("2023-12-31T00:00:00.000Z");
+    });
+
+    test("parses Unix epoch seconds and milliseconds", () => {
+      expect(parseTime("1704067200", NOW)).toBe("2024-01-01T00:00:00.000Z");
+      expect(parseTime("1704067200123", NOW)).toBe("2024-01-01T00:00:00.123Z");
+    });
+
+    test("rejects unknown formats", () => {
+      expect(() => parseTime("soon", NOW)).toThrow("Invalid time format: soon");
+      expect(() => parseTime("5y", NOW)).toThrow("Invalid time format");
+      expect(() => parseTime("12345", NOW)).toThrow("Invalid time format");
+    });
+  });
+
+  describe("parseDuration", () => {
+    test("parses units into milliseconds", () => {
+      expect(parseDuration("500ms")).toBe(500);
+      expect(parseDuration("2s")).toBe(2000);
+      expect(parseDuration("1.5m")).toBe(90000);
+      expect(parseDuration("1h")).toBe(3600000);
+      expect(parseDuration("1m30s")).toBe(90000);
+    });
+
+    test("treats bare numbers as seconds", () => {
+      expect(parseDuration("3")).toBe(3000);
+    });
+
+    test("rejects invalid durations", () => {
+      expect(() => parseDuration("fast")).toThrow("Invalid duration: fast");
+    });
+  });
+
+  describe("isWithinWindow", () => {
+    const window = { after: "2024-01-01T11:00:00Z", before: "2024-01-01T12:00:00Z" };
+
+    test("accepts timestamps inside the window", () => {
+      expect(isWithinWindow("2024-01-01T11:30:00Z", window)).toBe(true);
+    });
+
+    test("rejects timestamps outside the window", () => {
+      expect(isWithinWindow("2024-01-01T10:59:59Z", window)).toBe(false);
+      expect(isWithinWindow("2024-01-01T12:00:01Z", window)).toBe(false);
+    });
+
+    test("accepts everything when the window is open", () => {
+      expect(isWithinWindow(undefined, {})).toBe(true);
+    });
+
+    test("rejects missing timestamps when a bound is set", () => {
+      expect(isWithinWindow(undefined, { after: window.after })).toBe(false);
+    });
+  });
+
+  describe("sleep", () => {
+    test("resolves early when the signal aborts", async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 10);
+
+      await sleep(5000, controller.signal);
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+});
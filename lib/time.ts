@@ -0,0 +1,146 @@
+import { ValidationError } from "./errors";
+
+// Types
+export interface TimeWindow {
+  after?: string;
+  before?: string;
+}
+
+// Constants
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = DURATION_UNITS.d;
+// One or more number+unit parts, e.g. "1h30m" or "2w"
+const COMPOUND_DURATION = /^(?:\d+(?:\.\d+)?(?:ms|w|d|h|m|s))+$/;
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|w|d|h|m|s)/g;
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const TIME_FORMAT_HELP =
+  "Use now, today, yesterday, a relative time (30m, 1h30m, 2w), Unix epoch seconds/milliseconds or ISO 8601 (2024-01-15T10:00:00Z)";
+
+// Main exports
+// Accepts now/today/yesterday, relative times (`1h30m`, `2w ago`), epoch
+// seconds or ms, and ISO 8601 (UTC when no offset is given)
+export function parseTime(input: string, now: number = Date.now()): string {
+  const value = input.trim().toLowerCase();
+
+  if (value === "now") {
+    return new Date(now).toISOString();
+  }
+  if (value === "today" || value === "yesterday") {
+    const midnight = Math.floor(now / DAY_MS) * DAY_MS;
+    return new Date(value === "today" ? midnight : midnight - DAY_MS).toISOString();
+  }
+
+  const relative = value.replace(/\s*ago$/, "");
+  if (COMPOUND_DURATION.test(relative)) {
+    return new Date(now - sumDuration(relative)).toISOString();
+  }
+
+  // 9-11 digits are epoch seconds, 12-14 are epoch milliseconds
+  if (/^\d{9,11}$/.test(value)) {
+    return new Date(Number(value) * 1000).toISOString();
+  }
+  if (/^\d{12,14}$/.test(value)) {
+    return new Date(Number(value)).toISOString();
+  }
+
+  if (/^\d{4}-/.test(value)) {
+    return parseIsoDate(input.trim());
+  }
+
+  throw new ValidationError(`Invalid time format: ${input}. ${TIME_FORMAT_HELP}`);
+}
+
+// Parse a duration like "500ms", "2s", "5m", "1h" or "1h30m" into
+// milliseconds. Bare numbers are treated as seconds.
+export function parseDuration(input: string): number {
+  const value = input.trim();
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * DURATION_UNITS.s);
+  }
+  if (!COMPOUND_DURATION.test(value)) {
+    throw new ValidationError(`Invalid duration: ${input}. Use e.g. 500ms, 2s, 5m, 1h, 1h30m`);
+  }
+  return Math.round(sumDuration(value));
+}
+
+// Resolves after `ms`, or early once `signal` aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+export function isWithinWindow(ts: string | undefined, window: TimeWindow): boolean {
+  if (!window.after && !window.before) return true;
+  if (!ts) return false;
+
+  const time = new Date(ts).getTime();
+  if (window.after && time < new Date(window.after).getTime()) return false;
+  if (window.before && time > new Date(window.before).getTime()) return false;
+  return true;
+}
+
+// Helpers
+function sumDuration(input: string): number {
+  let total = 0;
+  for (const [, amount, unit] of input.matchAll(DURATION_PART)) {
+    total += parseFloat(amount) * DURATION_UNITS[unit];
+  }
+  return total;
+}
+
+function parseIsoDate(input: string): string {
+  const match = input.match(ISO_DATE);
+  const invalid = () =>
+    new ValidationError(`Invalid date: ${input}. Use ISO 8601, e.g. 2024-01-15 or 2024-01-15T10:00:00Z`);
+  if (!match) {
+    throw invalid();
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0", fraction = "0", zone] = match;
+  const fields = [year, month, day, hour, minute, second].map(Number);
+  const ms = Math.floor(Number(`0.${fraction}`) * 1000);
+  const utc = Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5], ms);
+
+  // Date.UTC rolls over out-of-range fields (Feb 30 -> Mar 1); reject those
+  const check = new Date(utc);
+  if (
+    check.getUTCFullYear() !== fields[0] ||
+    check.getUTCMonth() !== fields[1] - 1 ||
+    check.getUTCDate() !== fields[2] ||
+    check.getUTCHours() !== fields[3] ||
+    check.getUTCMinutes() !== fields[4] ||
+    check.getUTCSeconds() !== fields[5]
+  ) {
+    throw invalid();
+  }
+
+  return new Date(utc - zoneOffset(zone)).toISOString();
+}
+
+// Offset of a "Z", "+02:00" or "-0530" zone designator in milliseconds
+function zoneOffset(zone?: string): number {
+  if (!zone || zone.toUpperCase() === "Z") return 0;
+  const sign = zone.startsWith("-") ? -1 : 1;
+  const digits = zone.slice(1).replace(":", "");
+  const hours = Number(digits.slice(0, 2));
+  const minutes = Number(digits.slice(2));
+  return sign * (hours * 60 + minutes) * 60 * 1000;
+}
@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import type { Server } from "bun";
+import { traceEvent, findSentEventIds } from "./trace";
+import { createMockServer, mockEventResponse, mockEventRunsResponse } from "./test-utils";
+
+describe("trace", () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(() => {
+    server = createMockServer({
+      routes: [
+        {
+          method: "GET",
+          path: "/v1/events/evt-1/runs",
+          response: mockEventRunsResponse([{ runId: "run-1", status: "Completed", functionId: "signup" }]),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-2/runs",
+          response: mockEventRunsResponse([{ runId: "run-2", status: "Failed", functionId: "welcome" }]),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-1",
+          response: mockEventResponse("evt-1", "user.signup"),
+        },
+        {
+          method: "GET",
+          path: "/v1/events/evt-2",
+          response: mockEventResponse("evt-2", "user.welcome"),
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-1/jobs",
+          response: {
+            data: [
+              { job_id: "job-1", step_id: "create-user", status: "Completed", output: { userId: "u1" } },
+              { job_id: "job-2", step_id: "send-welcome", status: "Completed", output: { data: { ids: ["evt-2"] } } },
+            ],
+          },
+        },
+        {
+          method: "GET",
+          path: "/v1/runs/run-2/jobs",
+          response: {
+            data: [
+              // Points back at evt-1, which must not be traced twice
+              { job_id: "job-3", step_id: "email", status: "Failed", error: "smtp down", output: { ids: ["evt-1"] } },
+            ],
+          },
+        },
+      ],
+    });
+    port = server.port;
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  beforeEach(() => {
+    process.env.INNGEST_DEV_URL = `http://localhost:${port}`;
+  });
+
+  describe("traceEvent", () => {
+    test("builds the event, runs and steps tree", async () => {
+      const trace = await traceEvent("evt-1", { dev: true });
+
+      expect(trace.event.name).toBe("user.signup");
+      expect(trace.runs).toHaveLength(1);
+      expect(trace.runs[0].runId).toBe("run-1");
+      expect(trace.runs[0].jobs.map((job) => job.stepId)).toEqual(["create-user", "send-welcome"]);
+      expect(trace.runs[0].sentEvents).toEqual([]);
+    });
+
+    test("follows sent events with depth", async () => {
+      const trace = await traceEvent("evt-1", { dev: true, depth: 5 });
+
+      const sent = trace.runs[0].sentEvents;
+      expect(sent).toHaveLength(1);
+      expect(sent[0].event.id).toBe("evt-2");
+      expect(sent[0].runs[0].jobs[0].error).toBe("smtp down");
+      // evt-1 was already traced, so the loop stops here
+      expect(sent[0].runs[0].sentEvents).toEqual([]);
+    });
+  });
+
+  describe("findSentEventIds", () => {
+    test("finds ids arrays in nested output", () => {
+      expect(findSentEventIds({ ids: ["a", "b"] })).toEqual(["a", "b"]);
+      expect(findSentEventIds({ result: { ids: ["c"] } })).toEqual(["c"]);
+      expect(findSentEventIds([{ ids: ["d"] }, { ids: ["e"] }])).toEqual(["d", "e"]);
+    });
+
+    test("ignores output without event IDs", () => {
+      expect(findSentEventIds({ ids: [1, 2] })).toEqual([]);
+      expect(findSentEventIds("done")).toEqual([]);
+      expect(findSentEventIds(null)).toEqual([]);
+    });
+  });
+});
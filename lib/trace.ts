@@ -0,0 +1,82 @@
+import type { ClientOptions } from "./client";
+import { getEvent, getEventRuns, type EventDetails, type EventRun } from "./events";
+import { getRunJobs, type RunJob } from "./runs";
+import { mapConcurrent } from "./concurrency";
+
+// Types
+export interface TraceOptions extends ClientOptions {
+  // Levels of sent events to follow; 0 only traces the given event
+  depth?: number;
+  concurrency?: number;
+}
+
+export interface TraceNode {
+  event: EventDetails;
+  runs: TraceRun[];
+}
+
+export interface TraceRun extends EventRun {
+  jobs: RunJob[];
+  // Events this run sent, found in step output, when followed with --depth
+  sentEvents: TraceNode[];
+}
+
+// Constants
+const DEFAULT_CONCURRENCY = 5;
+// How deep to look into step output for a `{ ids: [...] }` send result
+const MAX_OUTPUT_SCAN_DEPTH = 3;
+
+// Main exports
+// With `depth` > 0, events sent by the runs (`ids` in step output) are traced too
+export async function traceEvent(eventId: string, options: TraceOptions = {}): Promise<TraceNode> {
+  return traceNode(eventId, options.depth ?? 0, new Set([eventId]), options);
+}
+
+// Event IDs a run sent, read from `step.sendEvent` style `{ ids: [...] }` output
+export function findSentEventIds(output: unknown, depth = 0): string[] {
+  if (depth > MAX_OUTPUT_SCAN_DEPTH || typeof output !== "object" || output === null) {
+    return [];
+  }
+
+  const record = output as Record<string, unknown>;
+  if (Array.isArray(record.ids) && record.ids.every((id) => typeof id === "string")) {
+    return record.ids as string[];
+  }
+
+  const values = Array.isArray(output) ? output : Object.values(record);
+  return values.flatMap((value) => findSentEventIds(value, depth + 1));
+}
+
+// Helpers
+async function traceNode(
+  eventId: string,
+  depth: number,
+  visited: Set<string>,
+  options: TraceOptions
+): Promise<TraceNode> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const [event, runs] = await Promise.all([
+    getEvent(eventId, options),
+    getEventRuns(eventId, options),
+  ]);
+
+  const traced = await mapConcurrent(runs, concurrency, async (run) => {
+    const jobs = await getRunJobs(run.runId, options);
+    if (depth <= 0) {
+      return { ...run, jobs, sentEvents: [] };
+    }
+
+    // Skip events already in the tree so fan-in or loops terminate
+    const sentIds = [...new Set(jobs.flatMap((job) => findSentEventIds(job.output)))].filter(
+      (id) => !visited.has(id)
+    );
+    sentIds.forEach((id) => visited.add(id));
+
+    const sentEvents = await mapConcurrent(sentIds, concurrency, (id) =>
+      traceNode(id, depth - 1, visited, options)
+    );
+    return { ...run, jobs, sentEvents };
+  });
+
+  return { event, runs: traced };
+}